@@ -0,0 +1,160 @@
+import * as THREE from "three";
+
+export type AnimationEventType = "finished" | "loop" | "marker";
+
+export interface AnimationEvent {
+  type: AnimationEventType;
+  /** Clip name, e.g. "Roll" */
+  clip: string;
+  /** Marker name for marker events, otherwise the same as type */
+  name: string;
+  action: THREE.AnimationAction;
+}
+
+export type AnimationEventListener = (event: AnimationEvent) => void;
+
+/** Marker names mapped to normalized clip times (0 = start, 1 = end) */
+export type ClipMarkers = Record<string, number>;
+
+interface Marker {
+  name: string;
+  time: number;
+}
+
+type MixerEvent = { action: THREE.AnimationAction };
+
+/**
+ * Clip events for an AnimationMixer: forwards the mixer's finished / loop
+ * events and fires named markers placed at normalized times on a clip,
+ * e.g. Roll@0.85 = "canCancel". Call update() right after mixer.update().
+ */
+export class AnimationEvents {
+  private mixer: THREE.AnimationMixer;
+  private markers = new Map<string, Marker[]>();
+  private listeners = new Map<string, Set<AnimationEventListener>>();
+  // Normalized time each marked action had at the previous update, -1 = from the start
+  private lastTimes = new Map<THREE.AnimationAction, number>();
+
+  constructor(mixer: THREE.AnimationMixer) {
+    this.mixer = mixer;
+
+    this.handleFinished = this.handleFinished.bind(this);
+    this.handleLoop = this.handleLoop.bind(this);
+    mixer.addEventListener("finished", this.handleFinished);
+    mixer.addEventListener("loop", this.handleLoop);
+  }
+
+  /**
+   * Place a named marker on a clip at a normalized time
+   */
+  addMarker(clip: string, time: number, name: string): void {
+    const markers = this.markers.get(clip) ?? [];
+    markers.push({ name, time: THREE.MathUtils.clamp(time, 0, 1) });
+    markers.sort((a, b) => a.time - b.time);
+    this.markers.set(clip, markers);
+  }
+
+  /**
+   * Add markers for several clips, e.g. { Roll: { canCancel: 0.85 } }
+   */
+  setMarkers(markersByClip: Record<string, ClipMarkers>): void {
+    Object.entries(markersByClip).forEach(([clip, markers]) => {
+      Object.entries(markers).forEach(([name, time]) => {
+        this.addMarker(clip, time, name);
+      });
+    });
+  }
+
+  /**
+   * Listen for events of one clip, or of every clip with "*".
+   * Returns an unsubscribe function.
+   */
+  on(clip: string, listener: AnimationEventListener): () => void {
+    let set = this.listeners.get(clip);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(clip, set);
+    }
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Fire markers crossed since the last update
+   */
+  update(): void {
+    this.markers.forEach((markers, clip) => {
+      const action = this.mixer.existingAction(clip);
+      if (!action) return;
+
+      if (!action.isRunning()) {
+        this.lastTimes.delete(action);
+        return;
+      }
+
+      const time = this.getNormalizedTime(action);
+      let lastTime = this.lastTimes.get(action) ?? -1;
+      // Restarted with reset() since the last update
+      if (time < lastTime) lastTime = -1;
+
+      this.fireMarkers(action, markers, lastTime, time);
+      this.lastTimes.set(action, time);
+    });
+  }
+
+  private handleFinished(event: MixerEvent): void {
+    this.emit("finished", event.action, "finished");
+  }
+
+  private handleLoop(event: MixerEvent): void {
+    const { action } = event;
+    const clip = action.getClip().name;
+    const markers = this.markers.get(clip);
+
+    // Finish the markers of the pass that just wrapped, the next update
+    // picks up from the start of the new one
+    if (markers && this.lastTimes.has(action)) {
+      this.fireMarkers(action, markers, this.lastTimes.get(action)!, 1);
+      this.lastTimes.set(action, -1);
+    }
+
+    this.emit("loop", action, "loop");
+  }
+
+  private fireMarkers(
+    action: THREE.AnimationAction,
+    markers: Marker[],
+    from: number,
+    to: number
+  ): void {
+    markers.forEach((marker) => {
+      if (marker.time > from && marker.time <= to) {
+        this.emit("marker", action, marker.name);
+      }
+    });
+  }
+
+  private getNormalizedTime(action: THREE.AnimationAction): number {
+    const duration = action.getClip().duration;
+    return duration > 0 ? THREE.MathUtils.clamp(action.time / duration, 0, 1) : 1;
+  }
+
+  private emit(
+    type: AnimationEventType,
+    action: THREE.AnimationAction,
+    name: string
+  ): void {
+    const clip = action.getClip().name;
+    const event: AnimationEvent = { type, clip, name, action };
+    this.listeners.get(clip)?.forEach((listener) => listener(event));
+    this.listeners.get("*")?.forEach((listener) => listener(event));
+  }
+
+  dispose(): void {
+    this.mixer.removeEventListener("finished", this.handleFinished);
+    this.mixer.removeEventListener("loop", this.handleLoop);
+    this.listeners.clear();
+    this.markers.clear();
+    this.lastTimes.clear();
+  }
+}
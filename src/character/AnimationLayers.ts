@@ -0,0 +1,298 @@
+import * as THREE from "three";
+
+export type AnimationLayerBlendMode = "override" | "additive";
+
+export interface AnimationLayerParams {
+  /** Bones driven by the layer, with everything below them (all bones if omitted) */
+  mask?: string[];
+  /** override replaces the base pose of the masked bones, additive adds on top of it */
+  blendMode?: AnimationLayerBlendMode;
+  weight?: number;
+}
+
+export interface AnimationLayerPlayOptions {
+  loop?: boolean;
+  fadeDuration?: number;
+  timeScale?: number;
+  /** Replay the clip if it's already playing on the layer */
+  restart?: boolean;
+}
+
+interface Fade {
+  weight: number;
+  targetWeight: number;
+  fadeRate: number;
+}
+
+interface LayerAction extends Fade {
+  action: THREE.AnimationAction;
+  /** Name of the clip the masked copy was made from */
+  clipName: string;
+}
+
+interface AnimationLayer extends Fade {
+  name: string;
+  mask: Set<string> | null;
+  blendMode: AnimationLayerBlendMode;
+  current: LayerAction | null;
+  fadingOut: LayerAction[];
+  fadeDuration: number;
+  // Masked copies of the source clips, by source clip name
+  clips: Map<string, THREE.AnimationClip>;
+}
+
+type MixerEvent = { action: THREE.AnimationAction };
+
+// Share of the masked bones an override layer can take from the base at full weight
+const MAX_OVERRIDE_SHARE = 0.999;
+
+/**
+ * Animation layers over the base animation of a mixer (everything played
+ * on it directly, e.g. locomotion). Each layer plays masked copies of clips
+ * that only drive some bones, e.g. the spine and arms, with its own weight
+ * and fades. Call update() right before mixer.update().
+ *
+ * The mixer averages the actions on a bone by weight, so override layers
+ * scale their weight against the base (whose weights sum to 1 with
+ * crossfades and blend spaces). Layers don't override each other.
+ */
+export class AnimationLayers {
+  private mixer: THREE.AnimationMixer;
+  private root: THREE.Object3D;
+  private layers = new Map<string, AnimationLayer>();
+
+  constructor(mixer: THREE.AnimationMixer, root: THREE.Object3D) {
+    this.mixer = mixer;
+    this.root = root;
+
+    this.handleFinished = this.handleFinished.bind(this);
+    mixer.addEventListener("finished", this.handleFinished);
+  }
+
+  addLayer(name: string, params: AnimationLayerParams = {}): void {
+    const { mask, blendMode = "override", weight = 1 } = params;
+
+    this.layers.set(name, {
+      name,
+      mask: mask ? this.collectBones(mask) : null,
+      blendMode,
+      weight,
+      targetWeight: weight,
+      fadeRate: Infinity,
+      current: null,
+      fadingOut: [],
+      fadeDuration: 0.15,
+      clips: new Map(),
+    });
+  }
+
+  /**
+   * Crossfade the layer to a clip. One-shots hold their last frame and fade
+   * out when they finish, letting the base show through again.
+   */
+  play(
+    layerName: string,
+    clip: THREE.AnimationClip,
+    options: AnimationLayerPlayOptions = {}
+  ): THREE.AnimationAction | null {
+    const layer = this.layers.get(layerName);
+    if (!layer) {
+      console.warn(`Animation layer ${layerName} not found`);
+      return null;
+    }
+
+    const {
+      loop = false,
+      fadeDuration = 0.15,
+      timeScale = 1,
+      restart = false,
+    } = options;
+    const action = this.getAction(layer, clip);
+    layer.fadeDuration = fadeDuration;
+
+    const current = layer.current;
+    if (current && current.action === action) {
+      this.fadeTo(current, 1, fadeDuration);
+      action.timeScale = timeScale;
+      if (restart) action.reset().play();
+      return action;
+    }
+
+    if (current) this.fadeOut(layer, current, fadeDuration);
+
+    // Taken back while it was still fading out
+    layer.fadingOut = layer.fadingOut.filter((entry) => entry.action !== action);
+
+    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity);
+    action.clampWhenFinished = !loop;
+    action.reset().setEffectiveWeight(0).play();
+    action.timeScale = timeScale;
+
+    layer.current = {
+      action,
+      clipName: clip.name,
+      weight: 0,
+      targetWeight: 0,
+      fadeRate: Infinity,
+    };
+    this.fadeTo(layer.current, 1, fadeDuration);
+
+    return action;
+  }
+
+  /**
+   * Fade out whatever the layer is playing
+   */
+  stop(layerName: string, fadeDuration: number = 0.15): void {
+    const layer = this.layers.get(layerName);
+    if (layer?.current) {
+      this.fadeOut(layer, layer.current, fadeDuration);
+    }
+  }
+
+  /**
+   * Fade the whole layer's weight, independent of what it plays
+   */
+  setWeight(layerName: string, weight: number, fadeDuration: number = 0): void {
+    const layer = this.layers.get(layerName);
+    if (layer) {
+      this.fadeTo(layer, THREE.MathUtils.clamp(weight, 0, 1), fadeDuration);
+    }
+  }
+
+  /**
+   * True if the layer is playing (and not fading out) the clip, or any clip
+   */
+  isPlaying(layerName: string, clipName?: string): boolean {
+    const current = this.layers.get(layerName)?.current;
+    if (!current) return false;
+    return clipName === undefined || current.clipName === clipName;
+  }
+
+  /**
+   * Normalized time (0-1) of the clip the layer is playing, or null
+   */
+  getProgress(layerName: string): number | null {
+    const current = this.layers.get(layerName)?.current;
+    if (!current) return null;
+    const duration = current.action.getClip().duration;
+    return duration > 0 ? current.action.time / duration : 1;
+  }
+
+  update(delta: number): void {
+    this.layers.forEach((layer) => {
+      this.stepFade(layer, delta);
+
+      layer.fadingOut = layer.fadingOut.filter((entry) => {
+        this.stepFade(entry, delta);
+        if (entry.weight > 0) return true;
+        entry.action.stop();
+        return false;
+      });
+
+      if (layer.current) this.stepFade(layer.current, delta);
+
+      const entries = layer.current
+        ? [layer.current, ...layer.fadingOut]
+        : layer.fadingOut;
+      const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+      const share = layer.weight * Math.min(total, 1);
+
+      // Additive layers use their weights as is; override layers take
+      // `share` of the pose from a base weighing 1
+      let scale = layer.weight;
+      if (layer.blendMode === "override" && total > 0) {
+        const overrideShare = Math.min(share, MAX_OVERRIDE_SHARE);
+        scale = overrideShare / (1 - overrideShare) / total;
+      }
+
+      entries.forEach((entry) => {
+        entry.action.setEffectiveWeight(entry.weight * scale);
+      });
+    });
+  }
+
+  private handleFinished(event: MixerEvent): void {
+    this.layers.forEach((layer) => {
+      if (layer.current?.action === event.action) {
+        this.fadeOut(layer, layer.current, layer.fadeDuration);
+      }
+    });
+  }
+
+  private fadeOut(layer: AnimationLayer, entry: LayerAction, duration: number): void {
+    this.fadeTo(entry, 0, duration);
+    layer.fadingOut.push(entry);
+    if (layer.current === entry) layer.current = null;
+  }
+
+  private fadeTo(fade: Fade, target: number, duration: number): void {
+    fade.targetWeight = target;
+    fade.fadeRate = duration > 0 ? 1 / duration : Infinity;
+  }
+
+  private stepFade(fade: Fade, delta: number): void {
+    const step = fade.fadeRate === Infinity ? Infinity : fade.fadeRate * delta;
+    fade.weight =
+      fade.weight < fade.targetWeight
+        ? Math.min(fade.weight + step, fade.targetWeight)
+        : Math.max(fade.weight - step, fade.targetWeight);
+  }
+
+  private getAction(
+    layer: AnimationLayer,
+    clip: THREE.AnimationClip
+  ): THREE.AnimationAction {
+    let masked = layer.clips.get(clip.name);
+    if (!masked) {
+      const tracks = clip.tracks
+        .filter((track) => {
+          if (!layer.mask) return true;
+          const { nodeName } = THREE.PropertyBinding.parseTrackName(track.name);
+          return layer.mask.has(nodeName);
+        })
+        .map((track) => track.clone());
+
+      masked = new THREE.AnimationClip(
+        `${clip.name}@${layer.name}`,
+        clip.duration,
+        tracks
+      );
+      if (layer.blendMode === "additive") {
+        // Relative to the clip's first frame
+        THREE.AnimationUtils.makeClipAdditive(masked);
+      }
+      layer.clips.set(clip.name, masked);
+    }
+
+    const blendMode =
+      layer.blendMode === "additive"
+        ? THREE.AdditiveAnimationBlendMode
+        : THREE.NormalAnimationBlendMode;
+    return this.mixer.clipAction(masked, undefined, blendMode);
+  }
+
+  private collectBones(boneNames: string[]): Set<string> {
+    const bones = new Set<string>();
+    boneNames.forEach((boneName) => {
+      // Node names are sanitized on load, e.g. "DEF-spine.001" -> "DEF-spine001"
+      const bone = this.root.getObjectByName(
+        THREE.PropertyBinding.sanitizeNodeName(boneName)
+      );
+      if (!bone) {
+        console.warn(`Mask bone ${boneName} not found`);
+        return;
+      }
+      bone.traverse((child) => bones.add(child.name));
+    });
+    return bones;
+  }
+
+  dispose(): void {
+    this.mixer.removeEventListener("finished", this.handleFinished);
+    this.layers.forEach((layer) => {
+      layer.clips.forEach((clip) => this.mixer.uncacheClip(clip));
+    });
+    this.layers.clear();
+  }
+}
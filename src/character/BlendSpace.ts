@@ -0,0 +1,212 @@
+import * as THREE from "three";
+
+export interface BlendSample<TPosition> {
+  action: THREE.AnimationAction;
+  /** Where the clip sits in the blend space (e.g. the speed it was authored for) */
+  position: TPosition;
+  /** Keep this clip's cycle in phase with the others (off for idles) */
+  syncPhase?: boolean;
+}
+
+/**
+ * Plays several looping clips at once and weights them by a blend parameter
+ * (speed, direction...). Clips that sync phase share one normalized cycle, so
+ * their footfalls line up while blending. The whole space fades in and out
+ * like a single action.
+ */
+export abstract class BlendSpace<TPosition> {
+  protected samples: BlendSample<TPosition>[];
+  private weights: number[];
+  private weight: number = 0;
+  private targetWeight: number = 0;
+  private fadeRate: number = 0;
+
+  constructor(samples: BlendSample<TPosition>[]) {
+    this.samples = samples;
+    this.weights = samples.map(() => 0);
+  }
+
+  /**
+   * Start the clips (if faded out) and fade the space in
+   */
+  play(fadeDuration: number = 0.15): void {
+    if (this.weight === 0 && this.targetWeight === 0) {
+      this.samples.forEach(({ action }) => {
+        action
+          .reset()
+          .setLoop(THREE.LoopRepeat, Infinity)
+          .setEffectiveWeight(0)
+          .play();
+      });
+    }
+    this.fadeTo(1, fadeDuration);
+  }
+
+  /**
+   * Fade the space out; the clips stop once it reaches zero
+   */
+  stop(fadeDuration: number = 0.15): void {
+    this.fadeTo(0, fadeDuration);
+  }
+
+  private fadeTo(target: number, duration: number): void {
+    this.targetWeight = target;
+    this.fadeRate = duration > 0 ? 1 / duration : Infinity;
+  }
+
+  /**
+   * Call every frame with the current blend parameter; the weights take
+   * effect on the next mixer.update()
+   */
+  update(delta: number, value: TPosition): void {
+    if (this.weight === 0 && this.targetWeight === 0) return;
+
+    const step = this.fadeRate === Infinity ? 1 : this.fadeRate * delta;
+    this.weight =
+      this.weight < this.targetWeight
+        ? Math.min(this.weight + step, this.targetWeight)
+        : Math.max(this.weight - step, this.targetWeight);
+
+    if (this.weight === 0 && this.targetWeight === 0) {
+      this.samples.forEach(({ action }) => action.stop());
+      return;
+    }
+
+    this.computeWeights(value, this.weights);
+    this.samples.forEach(({ action }, index) => {
+      action.setEffectiveWeight(this.weight * this.weights[index]);
+    });
+
+    this.syncPhase(this.getPlaybackRate(value));
+  }
+
+  private syncPhase(playbackRate: number): void {
+    let totalWeight = 0;
+    let cycleDuration = 0;
+    let leader: THREE.AnimationAction | null = null;
+    let leaderWeight = 0;
+
+    for (let i = 0; i < this.samples.length; i++) {
+      const { action, syncPhase = true } = this.samples[i];
+      if (!syncPhase) {
+        action.timeScale = 1;
+        continue;
+      }
+      const weight = this.weights[i];
+      totalWeight += weight;
+      cycleDuration += weight * action.getClip().duration;
+      if (weight > leaderWeight) {
+        leader = action;
+        leaderWeight = weight;
+      }
+    }
+
+    if (!leader || totalWeight === 0) return;
+
+    // Every synced clip advances through its cycle at the rate of the blended cycle
+    cycleDuration /= totalWeight;
+    const phase = leader.time / leader.getClip().duration;
+
+    this.samples.forEach(({ action, syncPhase = true }) => {
+      if (!syncPhase) return;
+      const duration = action.getClip().duration;
+      action.time = phase * duration;
+      action.timeScale = (duration / cycleDuration) * playbackRate;
+    });
+  }
+
+  /**
+   * Fill weights (one per sample, summing to 1) for a blend parameter
+   */
+  protected abstract computeWeights(value: TPosition, weights: number[]): void;
+
+  /**
+   * Extra playback speed, e.g. when moving faster than the fastest clip
+   */
+  protected getPlaybackRate(_value: TPosition): number {
+    return 1;
+  }
+
+  isActive(): boolean {
+    return this.targetWeight > 0;
+  }
+
+  /**
+   * Current weight of each sample's action, in sample order
+   */
+  getWeights(): number[] {
+    return this.weights.map((weight) => weight * this.weight);
+  }
+}
+
+/**
+ * Blend along one axis, e.g. idle (0 m/s) - walk - sprint by speed
+ */
+export class BlendSpace1D extends BlendSpace<number> {
+  private maxPlaybackRate: number;
+
+  constructor(samples: BlendSample<number>[], maxPlaybackRate: number = 1.5) {
+    super([...samples].sort((a, b) => a.position - b.position));
+    this.maxPlaybackRate = maxPlaybackRate;
+  }
+
+  protected computeWeights(value: number, weights: number[]): void {
+    weights.fill(0);
+    const samples = this.samples;
+    const last = samples.length - 1;
+    if (last < 0) return;
+
+    if (value <= samples[0].position) {
+      weights[0] = 1;
+      return;
+    }
+    if (value >= samples[last].position) {
+      weights[last] = 1;
+      return;
+    }
+
+    for (let i = 0; i < last; i++) {
+      const from = samples[i].position;
+      const to = samples[i + 1].position;
+      if (value <= to) {
+        const t = to > from ? (value - from) / (to - from) : 1;
+        weights[i] = 1 - t;
+        weights[i + 1] = t;
+        return;
+      }
+    }
+  }
+
+  protected getPlaybackRate(value: number): number {
+    // Past the fastest clip, speed it up so the feet keep up with the body
+    const top = this.samples[this.samples.length - 1]?.position ?? 0;
+    if (top <= 0 || value <= top) return 1;
+    return Math.min(value / top, this.maxPlaybackRate);
+  }
+}
+
+/**
+ * Blend on a plane, e.g. forward / strafe speed. Weights fall off with the
+ * inverse square distance to each sample.
+ */
+export class BlendSpace2D extends BlendSpace<[number, number]> {
+  protected computeWeights(value: [number, number], weights: number[]): void {
+    let total = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      const [x, y] = this.samples[i].position;
+      const distanceSq = (value[0] - x) ** 2 + (value[1] - y) ** 2;
+      if (distanceSq < 1e-8) {
+        // Exactly on a sample
+        weights.fill(0);
+        weights[i] = 1;
+        return;
+      }
+      weights[i] = 1 / distanceSq;
+      total += weights[i];
+    }
+
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] = total > 0 ? weights[i] / total : 0;
+    }
+  }
+}
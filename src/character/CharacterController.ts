@@ -1,12 +1,662 @@
-// CharacterController.js
 import * as THREE from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
 import * as SkeletonUtils from "three/examples/jsm/utils/SkeletonUtils.js";
 import { FootstepParticles } from "../effects/FootstepParticles";
+import { MovingPlatform } from "../components/MovingPlatform";
+import type { UpdraftVolume } from "../components/UpdraftVolume";
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+import type { CharacterMotor, MotorVector, MovementBackend } from "./CharacterMotor";
+import { DynamicCharacterMotor } from "./DynamicCharacterMotor";
+import {
+  KinematicCharacterMotor,
+  type KinematicMotorSettings,
+} from "./KinematicCharacterMotor";
+import { StateMachine, type StateDefinition } from "./StateMachine";
+import { AnimationEvents, type ClipMarkers } from "./AnimationEvents";
+import { RootMotion } from "./RootMotion";
+import { FootIK } from "./FootIK";
+import { Hitbox, type AttackInfo } from "../combat/Hitbox";
+import type { CombatSystem } from "../combat/CombatSystem";
+import { Hurtbox } from "../combat/Hurtbox";
+import { Health, type DamageInfo, type DamageResult } from "../combat/Health";
+import { Stamina } from "./Stamina";
+import { WallSensor, type LedgeHit, type WallHit } from "./WallSensor";
+import { Glider } from "./Glider";
+import { BlendSpace1D } from "./BlendSpace";
+import { AnimationLayers } from "./AnimationLayers";
+import {
+  ComboSystem,
+  type ComboDefinition,
+  type ComboInput,
+  type ComboStep,
+} from "./ComboSystem";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type World = InstanceType<RAPIER["World"]>;
+type RigidBody = InstanceType<RAPIER["RigidBody"]>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+
+export type CharacterCameraMode = "follow" | "follow-orbit" | "orbit";
+
+/**
+ * Locomotion states. Grounded and Airborne are parents of the states below
+ * them; Roll, Attack, Dance, Hit, Death, Climb, ClimbOver, Hang and Slide
+ * are top-level.
+ */
+export type CharacterState =
+  | "Grounded"
+  | "Idle"
+  | "Walk"
+  | "Run"
+  | "Crouch"
+  | "Airborne"
+  | "JumpStart"
+  | "Fall"
+  | "Glide"
+  | "WallRun"
+  | "Land"
+  | "Roll"
+  | "Attack"
+  | "Dance"
+  | "Hit"
+  | "Death"
+  | "Climb"
+  | "ClimbOver"
+  | "Hang"
+  | "Slide";
+
+export interface CharacterConfig {
+  WALK_SPEED: number;
+  RUN_SPEED: number;
+  ROTATION_SPEED: number;
+  JUMP_FORCE: number;
+  cameraX: number;
+  cameraY: number;
+  cameraZ: number;
+  targetZ: number;
+  cameraLerpSpeed: number;
+  mouseSensitivity: number;
+  capsuleHeight: number;
+  capsuleRadius: number;
+  yPosition: number;
+  characterScale: number;
+  enableFootstepAudio: boolean;
+  enableFootstepParticles: boolean;
+  /** Plant the feet on uneven ground (two-bone leg IK) */
+  enableFootIK: boolean;
+  /** Contact force (N) that counts as a landing impact */
+  landingImpactThreshold: number;
+  maxHealth: number;
+  /** Seconds of invulnerability after taking damage or respawning */
+  invulnerabilityTime: number;
+  /** Seconds from death to respawning at the last checkpoint */
+  respawnDelay: number;
+  /** Falling below this height respawns at the last checkpoint */
+  killHeight: number;
+  /** Damage for falling out of the world */
+  fallOutDamage: number;
+  /** Fall speed (m/s) at which landings start to hurt */
+  fallDamageMinSpeed: number;
+  /** Fall speed (m/s) that deals fallDamageMax */
+  fallDamageMaxSpeed: number;
+  fallDamageMax: number;
+  /** Fall speed (m/s) for the heavy landing */
+  hardLandingSpeed: number;
+  /** Seconds before touchdown a roll press turns the landing into a roll */
+  landingRollWindow: number;
+  /** Seconds after walking off an edge during which a jump still works */
+  coyoteTime: number;
+  /** Seconds a jump press is remembered until a jump is possible (e.g. landing) */
+  jumpBufferTime: number;
+  /** Rising speed kept when Space is released before the top of the jump */
+  jumpCutMultiplier: number;
+  /** Surfaces at least this steep (degrees from flat) can be climbed */
+  climbMinAngle: number;
+  climbSpeed: number;
+  /** Gap (m) between the capsule and a wall within which it is grabbed */
+  climbReach: number;
+  /** Push away from the wall (m/s) when jumping off */
+  climbJumpOffSpeed: number;
+  /** Fastest fall (m/s) with the glider out */
+  glideFallSpeed: number;
+  /** Horizontal cruising speed (m/s) while gliding forward */
+  glideSpeed: number;
+  /** How quickly (1/s) the glider's momentum turns toward the heading */
+  glideTurnRate: number;
+  /** Camera offset while gliding, pulled further back than cameraY / cameraZ */
+  glideCameraY: number;
+  glideCameraZ: number;
+  /** Longest run along a wall (s) */
+  wallRunDuration: number;
+  /** Walls at least this steep (degrees from flat) can be run along */
+  wallRunMinAngle: number;
+  /** Largest angle (degrees) between the run direction and the wall */
+  wallRunMaxAngle: number;
+  /** Angle (degrees) of the wall jump away from the wall, 90 = straight out */
+  wallJumpAngle: number;
+  /** Horizontal speed (m/s) of the wall jump */
+  wallJumpSpeed: number;
+  /** Seconds after a wall run before the next; the same wall needs a landing first */
+  wallRunCooldown: number;
+  /** Steepest ground (degrees from flat) that can be walked on; steeper slides */
+  maxWalkableAngle: number;
+  /** Speed multiplier walking straight up the steepest walkable slope */
+  uphillSpeedFactor: number;
+  /** Top speed (m/s) sliding down ground steeper than maxWalkableAngle */
+  slideMaxSpeed: number;
+  /**
+   * "dynamic" (setLinvel on a dynamic capsule) or
+   * "kinematic" (Rapier KinematicCharacterController)
+   */
+  movementBackend: MovementBackend;
+  // Kinematic backend only
+  maxClimbAngle: number; // degrees
+  minSlideAngle: number; // degrees
+  autostepHeight: number;
+  autostepMinWidth: number;
+  snapToGround: number;
+}
+
+export type CharacterMovementSettings = Partial<
+  Pick<
+    CharacterConfig,
+    | "maxClimbAngle"
+    | "minSlideAngle"
+    | "autostepHeight"
+    | "autostepMinWidth"
+    | "snapToGround"
+    | "coyoteTime"
+    | "jumpBufferTime"
+    | "jumpCutMultiplier"
+    | "wallRunDuration"
+    | "wallRunMinAngle"
+    | "wallRunMaxAngle"
+    | "wallJumpAngle"
+    | "wallRunCooldown"
+    | "maxWalkableAngle"
+    | "uphillSpeedFactor"
+    | "slideMaxSpeed"
+  >
+>;
+
+type AnimationName =
+  | "idle"
+  | "walk"
+  | "run"
+  | "walkBackwards"
+  | "leftTurn"
+  | "rightTurn"
+  | "dance"
+  | "jumpStart"
+  | "jumpLoop"
+  | "jumpLand"
+  | "crouchIdle"
+  | "crouchWalk"
+  | "swordIdle"
+  | "swordAttack"
+  | "swordAttackAlt"
+  | "roll"
+  | "hit"
+  | "death"
+  | "hardLand"
+  | "tiredWalk"
+  | "climb"
+  | "hang"
+  | "glide"
+  | "slide";
+
+type AttackAnimation = "swordAttack" | "swordAttackAlt";
+
+/** Animations that can move the body with their authored root motion */
+export type RootMotionAnimation = "roll" | "swordAttackAlt";
+
+interface FootHit {
+  hitToi: number;
+  slopeFactor: number;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+interface CharacterKeys {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  run: boolean;
+  jump: boolean;
+  crouch: boolean;
+  dance: boolean;
+  roll: boolean;
+  walkBackward: boolean;
+}
+
+// Clips played once and held on their last frame; states end on their "finished" event
+const ONE_SHOT_ANIMATIONS: AnimationName[] = [
+  "jumpStart",
+  "jumpLand",
+  "roll",
+  "swordAttack",
+  "swordAttackAlt",
+  "hit",
+  "death",
+  "hardLand",
+];
+
+// Named points in the clips (normalized time) that states branch on
+const CLIP_MARKERS: Record<string, ClipMarkers> = {
+  Jump_Start: { airborne: 0.15 },
+  Jump_Land: { recovered: 0.25 },
+  // Back up from the crouch of a heavy landing
+  PickUp_Table: { recovered: 0.8 },
+  // Movement or jump input can cut the end of the roll short
+  Roll: { canCancel: 0.55 },
+  // Root motion covers the full distance by 0.6
+  Roll_RM: { canCancel: 0.6 },
+};
+
+// Sword attack chains: left click (light) and right click (heavy). Chain
+// windows open once the swing's active frames (ATTACK_ACTIVE_FRAMES) are over,
+// so a buffered click can't cut the hit or the lunge short.
+const SWORD_COMBO: ComboDefinition<AttackAnimation> = {
+  start: { light: "slash1", heavy: "heavy" },
+  steps: {
+    slash1: {
+      animation: "swordAttack",
+      speed: 1.2,
+      window: [0.35, 0.7],
+      cancelFrom: 0.5,
+      damage: 10,
+      movement: { speed: 2, from: 0.1, to: 0.3 },
+      next: { light: "slash2", heavy: "finisher" },
+    },
+    slash2: {
+      animation: "swordAttack",
+      speed: 1.4,
+      window: [0.35, 0.7],
+      cancelFrom: 0.5,
+      damage: 12,
+      movement: { speed: 2.5, from: 0.1, to: 0.3 },
+      next: { light: "slash3", heavy: "finisher" },
+    },
+    slash3: {
+      animation: "swordAttack",
+      speed: 1.6,
+      window: [0.35, 0.7],
+      cancelFrom: 0.5,
+      damage: 15,
+      movement: { speed: 3, from: 0.1, to: 0.3 },
+      next: { heavy: "finisher" },
+    },
+    heavy: {
+      animation: "swordAttackAlt",
+      window: [0.4, 0.8],
+      cancelFrom: 0.5,
+      damage: 20,
+      movement: { speed: 2, from: 0.2, to: 0.3 },
+      next: { light: "slash2" },
+    },
+    finisher: {
+      animation: "swordAttackAlt",
+      speed: 1.2,
+      cancelFrom: 0.7,
+      damage: 30,
+      movement: { speed: 3, from: 0.2, to: 0.3 },
+      finisher: true,
+    },
+  },
+};
+
+// Normalized time range of the sword clips in which the swing can hit
+const ATTACK_ACTIVE_FRAMES: Record<string, [number, number]> = {
+  Sword_Attack: [0.2, 0.35],
+  Sword_Attack_RM: [0.2, 0.35],
+};
+// Knockback speed (m/s) of regular hits and chain finishers
+const ATTACK_KNOCKBACK = 2;
+const FINISHER_KNOCKBACK = 6;
+
+// Swim_Fwd_Loop is authored lying face down; pitched upright against the
+// wall, its arm and leg strokes read as climbing
+const CLIMB_POSE_PITCH = -Math.PI / 2;
+// Moves the pitched model so the hips sit at the capsule center, chest to the wall
+const CLIMB_POSE_OFFSET = new THREE.Vector3(0, 1.0, 1.1);
+// Seconds to blend the model in and out of the climbing pose
+const CLIMB_POSE_BLEND_TIME = 0.15;
+// No re-grabbing a wall for this long after letting go or jumping off
+const CLIMB_REGRAB_DELAY = 0.5;
+// Push (m/s) into the wall that keeps the capsule against it
+const CLIMB_STICK_SPEED = 0.5;
+// Pulling up over an edge: speed (m/s), reach above the head and time limit
+const CLIMB_OVER_SPEED = 2.5;
+const CLIMB_OVER_REACH = 0.5;
+const CLIMB_OVER_TIMEOUT = 1.5;
+
+// Ledge grabs: the wall is probed at chest height; the edge can be up to
+// LEDGE_REACH above the head, its top sampled LEDGE_INSET past the face
+const LEDGE_PROBE_HEIGHT = 0.5;
+const LEDGE_REACH = 0.3;
+const LEDGE_INSET = 0.15;
+// Hanging holds the climb clip where both hands reach up, HANG_HAND_HEIGHT
+// above the capsule center once pitched upright
+const HANG_POSE_TIME = 0.375;
+const HANG_HAND_HEIGHT = 1.0;
+// Space kept between the capsule and the wall below the ledge
+const HANG_WALL_GAP = 0.05;
+const HANG_SHIMMY_SPEED = 1.2;
+// The capsule moves (never teleports) under the edge: rate (1/s) and top speed (m/s)
+const HANG_SETTLE_RATE = 10;
+const HANG_SETTLE_SPEED = 4;
+
+// Wall runs: small hop onto the wall, then a slow arc down (m/s, m/s²)
+const WALL_RUN_LIFT = 2;
+const WALL_RUN_GRAVITY = 4;
+// Falling faster than this (m/s) is too late to start a wall run
+const WALL_RUN_MAX_FALL_SPEED = 4;
+// Body lean away from the wall (radians), pivoting on the feet
+const WALL_RUN_LEAN = THREE.MathUtils.degToRad(25);
+// Normals this close (dot) on the same collider count as the same wall
+const SAME_WALL_DOT = 0.9;
+
+// No opening the glider this close (m) above the ground; the press is
+// left buffered for the landing instead
+const GLIDE_MIN_HEIGHT = 1.5;
+// Rate (1/s) the glide speed eases toward its target
+const GLIDE_ACCELERATION = 1.5;
+// Seconds to move the camera to or from its gliding offset
+const GLIDE_CAMERA_BLEND_TIME = 0.5;
+// The glider's bar is held between these
+const LEFT_HAND_BONE = "DEF-hand.L";
+const RIGHT_HAND_BONE = "DEF-hand.R";
+
+// Ground probe below the capsule: reaches far enough to find slopes that
+// only touch the side of the rounded bottom. The hit counts as ground when
+// the bottom sphere is within GROUND_TOLERANCE of the surface.
+const GROUND_RAY_LENGTH = 1;
+const GROUND_TOLERANCE = 0.15;
+// Sliding stops this many degrees below maxWalkableAngle, so it doesn't
+// flicker on ground right at the limit
+const SLIDE_EXIT_MARGIN = 3;
+// Speed lost to friction while sliding (m/s²) and sideways steering (m/s)
+const SLIDE_FRICTION = 2;
+const SLIDE_STEER_SPEED = 1.5;
+
+// Locomotion states that plant the feet; the IK fades out in all others
+// (running, jumping, climbing, ...)
+const FOOT_IK_STATES: CharacterState[] = ["Idle", "Walk", "Crouch", "Land", "Attack", "Hit"];
+// Foot IK ground rays start this far (m) above the animated ankle and reach this far down
+const FOOT_IK_RAY_RISE = 0.5;
+const FOOT_IK_RAY_LENGTH = 1;
+
+// Rate (1/s) the landing camera shake dies down
+const CAMERA_SHAKE_DECAY = 6;
+
+// Invulnerability blink rate (toggles per second)
+const INVULNERABLE_BLINK_RATE = 16;
+
+// Drawing / putting away the sword, played on the upper body
+const SHEATHE_CLIP = "Interact";
+const SHEATHE_SPEED = 2;
+// Normalized clip time the sword changes hands
+const SHEATHE_SWAP_TIME = 0.5;
+
+// Clips swapped in when root motion is enabled for an animation
+const ROOT_MOTION_CLIPS: Partial<Record<AnimationName, string>> = {
+  roll: "Roll_RM",
+};
+
+// Spine and everything above it (arms, head) play on the upper-body layer
+const UPPER_BODY_BONES = ["DEF-spine.001"];
+
+// Capsule resizes can briefly lift the ground ray off the floor
+const CROUCH_TRANSITION_DURATION = 0.2;
+// Stay crouched this long after the ceiling clears
+const STAND_UP_DELAY = 0.5;
 
 export class CharacterController {
-  constructor(scene, world, camera, collider = null, rapierInstance = null) {
+  private scene: THREE.Scene;
+  private world: World;
+  private camera: THREE.Camera;
+  private rapierInstance: RAPIER;
+
+  config: CharacterConfig;
+
+  // Physics body (created and moved by the motor for the selected backend)
+  private motor: CharacterMotor | null = null;
+  private rigidBody: RigidBody | null = null;
+  private colliderDesc: InstanceType<RAPIER["ColliderDesc"]> | null = null;
+  private collider: Collider | null = null; // Rebuilt when the capsule height changes
+  private currentCapsuleHalfHeight: number; // Track current capsule half height
+  private currentCharacterYOffset: number; // Track current character model Y offset
+
+  // Interpolation for smooth rendering
+  private prevPosition = new THREE.Vector3();
+  private currentPosition = new THREE.Vector3();
+
+  // Character groups
+  container = new THREE.Group();
+  private character = new THREE.Group();
+  private animationGroup = new THREE.Group();
+  private cameraTarget = new THREE.Group();
+  private cameraPosition = new THREE.Group();
+
+  // Animation
+  private mixer: THREE.AnimationMixer | null = null;
+  private actions: Record<string, THREE.AnimationAction> = {};
+  // null while a locomotion blend space is playing
+  private currentAnimation: AnimationName | null = null;
+  private currentAction: THREE.AnimationAction | null = null;
+  private animationChangeCooldown: number = 0;
+  private animationEvents: AnimationEvents | null = null;
+  // "<clip>:<event>" fired by the mixer this frame, read by the states
+  private clipEvents = new Set<string>();
+  private rootMotion: RootMotion | null = null;
+  private footIK: FootIK | null = null;
+  // Upper-body clips over locomotion (attacks on the move, holding the sword)
+  private animationLayers: AnimationLayers | null = null;
+  private rootMotionAnimations = new Set<AnimationName>(["roll", "swordAttackAlt"]);
+  // Speed-weighted idle / walk / sprint, per stance
+  private standingBlend: BlendSpace1D | null = null;
+  private crouchBlend: BlendSpace1D | null = null;
+  // Exhausted: walk speed at most, with a heavier walk cycle
+  private tiredBlend: BlendSpace1D | null = null;
+  private activeBlendSpace: BlendSpace1D | null = null;
+  // Horizontal speed at the start of the frame, relative to any platform
+  private horizontalSpeed: number = 0;
+  // World-space root motion of the current clip over this frame (m/s)
+  private rootMotionVelocity = new THREE.Vector3();
+
+  // State
+  private stateMachine: StateMachine<CharacterState>;
+  private isGrounded: boolean = true;
+  private wasGrounded: boolean = false;
+  private combatMode: boolean = false;
+  private shouldBeCrouched: boolean = false;
+  private hasCeilingClearance: boolean = true;
+  private crouchTransitionTime: number = 0;
+  private ceilingClearanceTimer: number = -1;
+  private rollDirection: number = 0;
+  private rollSpeed: number = 0;
+  private combo = new ComboSystem(SWORD_COMBO);
+  // Combat mode being switched to by the sheathe animation, null when idle
+  private sheatheTarget: boolean | null = null;
+  private sheatheRequested: boolean = false;
+  // Sword reach around the right hand, live during the active frames
+  private swordHitbox: Hitbox | null = null;
+  private swordHand: THREE.Object3D | null = null;
+  private upperBodyAttack: { clip: string; attack: AttackInfo } | null = null;
+  private canCancel: boolean = false;
+
+  // Health and respawning
+  private health: Health;
+  private stamina = new Stamina();
+  private hurtbox: Hurtbox;
+  private combat: CombatSystem | null = null;
+  // Horizontal push of the current hit reaction (m/s)
+  private knockback = new THREE.Vector3();
+  private lastDamage: DamageResult | null = null;
+  // Capsule center and facing to respawn with
+  private respawnPosition = new THREE.Vector3(0, 2, 0);
+  private respawnRotation: number = 0;
+  // Landing: fall speed last airborne frame, speed at touchdown, clip played
+  private fallSpeed: number = 0;
+  private impactSpeed: number = 0;
+  private landingAnimation: "jumpLand" | "hardLand" = "jumpLand";
+  // Time left for a roll pressed in the air to take the landing
+  private landingRollTimer: number = 0;
+
+  // Climbing: the wall being climbed, where a climb-over ends up
+  private wallSensor: WallSensor;
+  private climbHit: WallHit | null = null;
+  private climbOverTarget = new THREE.Vector3();
+  private climbOverRising: boolean = false;
+  private climbCooldown: number = 0;
+  // 0-1 blend of the model into the climbing pose, and its lean (radians)
+  private climbPoseWeight: number = 0;
+  private climbTilt: number = 0;
+
+  // Gliding: the canopy over the hands, updrafts that can lift it, and
+  // the 0-1 blend of the camera toward its gliding offset
+  private glider = new Glider();
+  private updrafts: UpdraftVolume[] = [];
+  private glideCameraWeight: number = 0;
+
+  // Wall running: the wall alongside, the last one run on (blocked until
+  // landing), cooldown and the current lean (radians)
+  private wallRunHit: WallHit | null = null;
+  private lastWallRun: WallHit | null = null;
+  private wallRunCooldown: number = 0;
+  private wallRunLean: number = 0;
+
+  // Per-frame movement, shared with the state hooks
+  private velocity: MotorVector = { x: 0, y: 0, z: 0 };
+  private movement = { x: 0, z: 0, walkBackwardMode: false };
+  private intendedVelocity = { x: 0, z: 0 };
+
+  // Rotation
+  private characterRotationTarget: number = 0;
+  private rotationTarget: number = 0;
+
+  // Camera
+  cameraMode: CharacterCameraMode = "follow-orbit";
+  private cameraWorldPosition = new THREE.Vector3();
+  private cameraLookAtWorldPosition = new THREE.Vector3();
+  private cameraLookAt = new THREE.Vector3();
+  private cameraInitialized: boolean = false;
+  // Landing response: a one-off dip and a decaying shake (m)
+  private cameraKick: number = 0;
+  private cameraShake: number = 0;
+  private mouseOrbitOffset: number = 0;
+  private mouseVerticalOffset: number = 0;
+  private isPointerLocked: boolean = false;
+
+  // Input
+  private keys: CharacterKeys = {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    run: false,
+    jump: false,
+    crouch: false,
+    dance: false,
+    roll: false,
+    walkBackward: false,
+  };
+  // Time left on the last jump press, and for jumping after walking off an edge
+  private jumpBufferTimer: number = 0;
+  private coyoteTimer: number = 0;
+  // Released Space before the top of the current jump cuts it short (once)
+  private jumpCutPending: boolean = false;
+  private rollPressed: boolean = false;
+
+  // Footstep system
+  private leftFootBone: THREE.Object3D | null = null;
+  private rightFootBone: THREE.Object3D | null = null;
+  private leftFootWorldPosition = new THREE.Vector3();
+  private rightFootWorldPosition = new THREE.Vector3();
+  private prevLeftFootPosition = new THREE.Vector3();
+  private prevRightFootPosition = new THREE.Vector3();
+  private leftFootInitialized: boolean = false;
+  private rightFootInitialized: boolean = false;
+  private leftFootWasGrounded: boolean = false;
+  private rightFootWasGrounded: boolean = false;
+  private footstepCooldown: number = 0;
+  private lastFootstepIndex: number | null = null;
+
+  // Footstep particles
+  private footstepParticles: FootstepParticles | null = null;
+
+  // Physics events (set through setPhysicsEvents)
+  private physicsEvents: PhysicsEventBus | null = null;
+  private pendingLandingForce: number = 0;
+  private lastLandingImpact: number = 0;
+
+  // Ground contact (collider under the ground ray, and the platform it belongs to)
+  private groundCollider: Collider | null = null;
+  private groundPlatform: MovingPlatform | null = null;
+  // Surface normal under the ground ray and its angle from flat (degrees)
+  private groundNormal = new THREE.Vector3(0, 1, 0);
+  private groundAngle: number = 0;
+  private slideSpeed: number = 0;
+
+  private footstepAnimations = new Set<AnimationName>([
+    "walk",
+    "run",
+    "walkBackwards",
+    "crouchWalk",
+  ]);
+  private footstepSoundPaths = [
+    "/sounds/steps.mp3",
+    "/sounds/steps (2).mp3",
+    "/sounds/steps (3).mp3",
+    "/sounds/steps (5).mp3",
+  ];
+
+  // Animation mapping
+  private animationMap: Record<AnimationName, string> = {
+    idle: "Idle_Loop",
+    walk: "Walk_Loop",
+    run: "Sprint_Loop",
+    walkBackwards: "Walk_Loop",
+    leftTurn: "Walk_Loop",
+    rightTurn: "Walk_Loop",
+    dance: "Dance_Loop",
+    jumpStart: "Jump_Start",
+    jumpLoop: "Jump_Loop",
+    jumpLand: "Jump_Land",
+    crouchIdle: "Crouch_Idle_Loop",
+    crouchWalk: "Crouch_Fwd_Loop",
+    swordIdle: "Sword_Idle",
+    swordAttack: "Sword_Attack",
+    swordAttackAlt: "Sword_Attack_RM",
+    roll: "Roll",
+    hit: "Hit_Chest",
+    death: "Death01",
+    // Bends down into a crouch and back up, which reads as absorbing the fall
+    hardLand: "PickUp_Table",
+    // Leaning into each heavy step
+    tiredWalk: "Push_Loop",
+    // Pitched upright while climbing (see CLIMB_POSE_PITCH)
+    climb: "Swim_Fwd_Loop",
+    // The same clip held at HANG_POSE_TIME
+    hang: "Swim_Fwd_Loop",
+    // Both hands up over the head, gripping the glider's bar
+    glide: "Pistol_Aim_Up",
+    // Arms out for balance, feet scrabbling for grip
+    slide: "Swim_Idle_Loop",
+  };
+
+  /**
+   * @param _groundMesh Unused; ground detection casts rays against the Rapier world
+   */
+  constructor(
+    scene: THREE.Scene,
+    world: World,
+    camera: THREE.Camera,
+    _groundMesh: THREE.Object3D | null = null,
+    rapierInstance: RAPIER | null = null
+  ) {
     if (!rapierInstance) {
       throw new Error(
         "CharacterController requires a RAPIER instance to be passed. Use PhysicsManager.getRAPIER()"
@@ -16,7 +666,6 @@ export class CharacterController {
     this.scene = scene;
     this.world = world;
     this.camera = camera;
-    this.collider = collider; // BVH mesh for ground detection
     this.rapierInstance = rapierInstance; // Use provided RAPIER instance from PhysicsManager
 
     // Configuration
@@ -37,29 +686,54 @@ export class CharacterController {
       characterScale: 1,
       enableFootstepAudio: true,
       enableFootstepParticles: true,
+      enableFootIK: true,
+      landingImpactThreshold: 20,
+      maxHealth: 100,
+      invulnerabilityTime: 1,
+      respawnDelay: 3,
+      killHeight: -50,
+      fallOutDamage: 25,
+      fallDamageMinSpeed: 12,
+      fallDamageMaxSpeed: 24,
+      fallDamageMax: 100,
+      hardLandingSpeed: 10,
+      landingRollWindow: 0.3,
+      coyoteTime: 0.12,
+      jumpBufferTime: 0.15,
+      jumpCutMultiplier: 0.5,
+      climbMinAngle: 70,
+      climbSpeed: 1.5,
+      climbReach: 0.2,
+      climbJumpOffSpeed: 4,
+      glideFallSpeed: 2,
+      glideSpeed: 6,
+      glideTurnRate: 2,
+      glideCameraY: 2.5,
+      glideCameraZ: -8,
+      wallRunDuration: 1.2,
+      wallRunMinAngle: 80,
+      wallRunMaxAngle: 45,
+      wallJumpAngle: 45,
+      wallJumpSpeed: 5,
+      wallRunCooldown: 0.5,
+      maxWalkableAngle: 40,
+      uphillSpeedFactor: 0.6,
+      slideMaxSpeed: 8,
+      movementBackend: "dynamic",
+      maxClimbAngle: 45,
+      minSlideAngle: 30,
+      autostepHeight: 0.3,
+      autostepMinWidth: 0.2,
+      snapToGround: 0.3,
     };
 
-    // Physics body
-    this.rigidBody = null;
-    this.colliderDesc = null;
-    this.collider = null; // Store collider handle for dynamic updates
-    this.currentCapsuleHalfHeight = this.config.capsuleHeight / 2; // Track current capsule half height
-    this.currentCharacterYOffset = this.config.yPosition; // Track current character model Y offset
-
-    // Interpolation for smooth rendering
-    this.prevPosition = new THREE.Vector3();
-    this.currentPosition = new THREE.Vector3();
-
-    // Character groups
-    this.container = new THREE.Group();
-    this.character = new THREE.Group();
-    this.animationGroup = new THREE.Group();
-    this.cameraTarget = new THREE.Group();
-    this.cameraPosition = new THREE.Group();
+    this.currentCapsuleHalfHeight = this.config.capsuleHeight / 2;
+    this.currentCharacterYOffset = this.config.yPosition;
 
     // Setup hierarchy
     this.character.add(this.animationGroup);
     this.container.add(this.character);
+    this.character.add(this.glider.getMesh());
     this.container.add(this.cameraTarget);
     this.container.add(this.cameraPosition);
     this.scene.add(this.container);
@@ -72,116 +746,25 @@ export class CharacterController {
       this.config.cameraZ
     );
 
-    // Animation
-    this.mixer = null;
-    this.actions = {};
-    this.currentAnimation = "idle";
-    this.currentAction = null;
-    this.animationChangeCooldown = 0;
-
-    // State
-    this.isGrounded = true;
-    this.wasGrounded = false;
-    this.jumpPhase = "none"; // 'none' | 'start' | 'loop' | 'land'
-    this.combatMode = false;
-    this.isAttacking = false;
-    this.isRolling = false;
-    this.isCrouching = false;
-    this.crouchTransitioning = false;
-    this.ceilingClearanceTimer = -1;
-    this.rollDirection = undefined;
-    this.rollSpeed = undefined;
-
-    // Rotation
-    this.characterRotationTarget = 0;
-    this.rotationTarget = 0;
-
-    // Camera
-    this.cameraMode = "follow-orbit"; // 'follow' | 'follow-orbit' | 'orbit'
-    this.cameraWorldPosition = new THREE.Vector3();
-    this.cameraLookAtWorldPosition = new THREE.Vector3();
-    this.cameraLookAt = new THREE.Vector3();
-    this.cameraInitialized = false;
-    this.mouseOrbitOffset = 0;
-    this.mouseVerticalOffset = 0;
-    this.isPointerLocked = false;
-
-    // Input
-    this.keys = {
-      forward: false,
-      backward: false,
-      left: false,
-      right: false,
-      run: false,
-      jump: false,
-      crouch: false,
-      dance: false,
-      roll: false,
-      walkBackward: false,
-    };
-    this.jumpPressed = false;
-    this.rollPressed = false;
-
-    // Footstep system
-    this.leftFootBone = null;
-    this.rightFootBone = null;
-    this.leftFootWorldPosition = new THREE.Vector3();
-    this.rightFootWorldPosition = new THREE.Vector3();
-    this.prevLeftFootPosition = new THREE.Vector3();
-    this.prevRightFootPosition = new THREE.Vector3();
-    this.leftFootInitialized = false;
-    this.rightFootInitialized = false;
-    this.leftFootWasGrounded = false;
-    this.rightFootWasGrounded = false;
-    this.footstepCooldown = 0;
-    this.lastFootstepIndex = null;
-    this.leftFootPrevToi = 1;
-    this.rightFootPrevToi = 1;
-
-    // Footstep particles
-    this.footstepParticles = null;
-
-    this.footstepAnimations = new Set([
-      "walk",
-      "run",
-      "walkBackwards",
-      "crouchWalk",
-    ]);
-    this.footstepSoundPaths = [
-      "/sounds/steps.mp3",
-      "/sounds/steps (2).mp3",
-      "/sounds/steps (3).mp3",
-      "/sounds/steps (5).mp3",
-    ];
+    this.health = new Health({
+      maxHealth: this.config.maxHealth,
+      invulnerabilityTime: this.config.invulnerabilityTime,
+    });
+    this.wallSensor = new WallSensor(rapierInstance, world);
+    this.hurtbox = new Hurtbox(this);
+    this.hurtbox.onHit((event) =>
+      this.takeDamage({
+        amount: event.attack.damage,
+        type: "physical",
+        source: event.attacker,
+        direction: event.direction,
+        knockback: event.attack.knockback,
+      })
+    );
 
-    // BVH temps
-    this.tempBox = new THREE.Box3();
-    this.tempMat = new THREE.Matrix4();
-    this.tempSegment = new THREE.Line3();
-    this.tempVector = new THREE.Vector3();
-    this.tempVector2 = new THREE.Vector3();
-    this.tempLandingCenter = new THREE.Vector3();
-    this.tempLandingNormal = new THREE.Vector3(0, 1, 0);
-
-    // Animation mapping
-    this.animationMap = {
-      idle: "Idle_Loop",
-      walk: "Walk_Loop",
-      run: "Sprint_Loop",
-      walkBackwards: "Walk_Loop",
-      leftTurn: "Walk_Loop",
-      rightTurn: "Walk_Loop",
-      dance: "Dance_Loop",
-      jumpStart: "Jump_Start",
-      jumpLoop: "Jump_Loop",
-      jumpLand: "Jump_Land",
-      crouchIdle: "Crouch_Idle_Loop",
-      crouchWalk: "Crouch_Fwd_Loop",
-      swordIdle: "Sword_Idle",
-      swordAttack: "Sword_Attack",
-      swordAttackAlt: "Sword_Attack_RM",
-      roll: "Roll",
-    };
+    // Spawned in the air; the first grounded frame lands
+    this.stateMachine = new StateMachine(this.createStates());
+    this.stateMachine.start("Fall");
 
     // Bind methods
     this.update = this.update.bind(this);
@@ -200,7 +783,523 @@ export class CharacterController {
     this.loadModel();
   }
 
-  setupInputListeners() {
+  /**
+   * Locomotion states. Parents run their update before their children, so
+   * Grounded / Airborne handle the shared checks (falling, landing, jumping)
+   * and the leaves only pick animations and siblings.
+   */
+  private createStates(): Record<CharacterState, StateDefinition<CharacterState>> {
+    const standingHalfHeight = this.config.capsuleHeight / 2;
+    const crouchHalfHeight = (this.config.capsuleHeight * 0.5) / 2;
+
+    return {
+      Grounded: {
+        initial: () => this.getLocomotionState(),
+        update: () => {
+          if (!this.isGrounded) return "Fall";
+          if (this.isOnSteepGround()) return "Slide";
+          if (this.hasCeilingClearance && this.consumeJump()) return "JumpStart";
+          if (this.tryStartClimb()) return "Climb";
+          if (this.combo.hasInput()) {
+            // On the move the legs keep running and only the arms swing
+            if (!this.isMoving()) return "Attack";
+            this.playUpperBodyAttack(this.combo.consumeInput());
+          }
+          if (!this.shouldBeCrouched && this.consumeRoll()) return "Roll";
+          if (this.keys.dance) return "Dance";
+          this.applyGroundMovement();
+        },
+      },
+      Idle: {
+        parent: "Grounded",
+        update: () => {
+          this.playStandingLocomotion();
+          return this.getLocomotionState();
+        },
+      },
+      Walk: {
+        parent: "Grounded",
+        update: () => {
+          // Walking backwards plays the same walk cycle, so it stays in the blend
+          this.playStandingLocomotion();
+          return this.getLocomotionState();
+        },
+      },
+      Run: {
+        parent: "Grounded",
+        update: (delta) => {
+          this.stamina.drain("sprint", delta);
+          this.playStandingLocomotion();
+          return this.getLocomotionState();
+        },
+      },
+      Crouch: {
+        parent: "Grounded",
+        enter: () => {
+          this.crouchTransitionTime = CROUCH_TRANSITION_DURATION;
+          this.updateCapsuleCollider(crouchHalfHeight);
+        },
+        exit: () => {
+          this.crouchTransitionTime = CROUCH_TRANSITION_DURATION;
+          this.updateCapsuleCollider(standingHalfHeight);
+        },
+        update: () => {
+          this.playBlendSpace(this.crouchBlend);
+          return this.getLocomotionState();
+        },
+      },
+
+      Airborne: {
+        initial: "Fall",
+        update: () => {
+          // Land handles its own input
+          if (this.stateMachine.is("Land")) return;
+
+          if (this.tryStartClimb()) return "Climb";
+          if (this.consumeRoll()) {
+            this.landingRollTimer = this.config.landingRollWindow;
+          }
+          // Rising (just jumped) doesn't count as touching down
+          if (this.isGrounded && this.velocity.y <= 0.1) {
+            // A roll pressed just before touchdown takes the whole impact
+            if (this.landingRollTimer > 0 && !this.shouldBeCrouched) {
+              this.landingRollTimer = 0;
+              return "Roll";
+            }
+            return "Land";
+          }
+        },
+      },
+      JumpStart: {
+        parent: "Airborne",
+        enter: (from) => {
+          this.velocity.y = this.config.JUMP_FORCE;
+          this.coyoteTimer = 0;
+          this.jumpCutPending = true;
+          // Jumping off a wall keeps the push away from it
+          const offWall = from === "Climb" || from === "WallRun";
+          if (!offWall && this.isMoving()) {
+            this.velocity.x = this.intendedVelocity.x;
+            this.velocity.z = this.intendedVelocity.z;
+          }
+          this.setAnimation("jumpStart", true);
+        },
+        update: () => {
+          this.applyJumpCut();
+          if (
+            this.hasClipEvent("jumpStart", "airborne") ||
+            this.isOneShotDone("jumpStart")
+          ) {
+            return "Fall";
+          }
+        },
+      },
+      Fall: {
+        parent: "Airborne",
+        update: () => {
+          if (this.tryGrabLedge()) return "Hang";
+          if (this.tryStartWallRun()) return "WallRun";
+          // Just walked off an edge: still time to jump
+          if (this.coyoteTimer > 0 && this.consumeJump()) return "JumpStart";
+          // Jump again in mid-air to open the glider
+          if (
+            this.stamina.canUse("glide") &&
+            !this.shouldBeCrouched &&
+            !this.hasGroundWithin(GLIDE_MIN_HEIGHT) &&
+            this.consumeJump()
+          ) {
+            return "Glide";
+          }
+          this.applyJumpCut();
+          this.setAnimation("jumpLoop");
+        },
+      },
+      // Sprinting along a wall alongside, for wallRunDuration at most
+      WallRun: {
+        parent: "Airborne",
+        enter: () => {
+          this.motor?.setGravityEnabled(false);
+          this.velocity.y = Math.max(this.velocity.y, WALL_RUN_LIFT);
+          this.lastWallRun = this.wallRunHit;
+        },
+        exit: () => {
+          this.motor?.setGravityEnabled(true);
+          this.wallRunCooldown = this.config.wallRunCooldown;
+        },
+        update: (delta, time) => {
+          const previous = this.wallRunHit;
+          const hit = previous ? this.probeWall(previous.normal.clone().negate()) : null;
+          if (
+            !hit ||
+            hit.steepness < this.config.wallRunMinAngle ||
+            time >= this.config.wallRunDuration ||
+            !this.isSprinting() ||
+            this.keys.crouch
+          ) {
+            return "Fall";
+          }
+          this.wallRunHit = hit;
+
+          // Along the wall, the way the body is already going
+          const away = hit.normal.clone().setY(0).normalize();
+          const run = new THREE.Vector3(this.velocity.x, 0, this.velocity.z);
+          run.addScaledVector(away, -run.dot(away));
+          if (run.lengthSq() < 1e-4) return "Fall";
+          run.normalize();
+
+          if (this.consumeJump()) {
+            const angle = THREE.MathUtils.degToRad(this.config.wallJumpAngle);
+            const jump = run
+              .multiplyScalar(Math.cos(angle))
+              .addScaledVector(away, Math.sin(angle))
+              .multiplyScalar(this.config.wallJumpSpeed);
+            this.velocity.x = jump.x;
+            this.velocity.z = jump.z;
+            this.characterRotationTarget = Math.atan2(jump.x, jump.z) - this.rotationTarget;
+            return "JumpStart";
+          }
+
+          this.stamina.drain("sprint", delta);
+          this.velocity.x = run.x * this.config.RUN_SPEED - away.x * CLIMB_STICK_SPEED;
+          this.velocity.z = run.z * this.config.RUN_SPEED - away.z * CLIMB_STICK_SPEED;
+          this.velocity.y -= WALL_RUN_GRAVITY * delta;
+          this.characterRotationTarget = Math.atan2(run.x, run.z) - this.rotationTarget;
+
+          this.playBlendSpace(this.standingBlend);
+        },
+      },
+      // Slow descent carrying horizontal momentum; lands through Airborne
+      Glide: {
+        parent: "Airborne",
+        enter: () => this.glider.setDeployed(true),
+        exit: () => this.glider.setDeployed(false),
+        update: (delta) => {
+          if (this.keys.crouch) return "Fall";
+          if (!this.stamina.drain("glide", delta)) return "Fall";
+
+          this.applyGlideMovement(delta);
+          this.setAnimation("glide");
+        },
+      },
+      Land: {
+        parent: "Airborne",
+        enter: () => this.handleLanding(),
+        update: () => {
+          if (this.health.isDead()) return "Death";
+          if (!this.isGrounded) return "Fall";
+
+          const landing = this.landingAnimation;
+          if (landing === "hardLand") {
+            // Stuck in the crouch until back up
+            this.dampVelocity();
+          } else {
+            if (this.consumeJump()) return "JumpStart";
+            if (!this.shouldBeCrouched && this.consumeRoll()) return "Roll";
+            if (!this.isMoving()) this.dampVelocity();
+          }
+          if (this.hasClipEvent(landing, "recovered") || this.isOneShotDone(landing)) {
+            return "Grounded";
+          }
+        },
+      },
+
+      Roll: {
+        enter: () => {
+          this.stamina.spend("roll");
+          this.canCancel = false;
+          this.setAnimation("roll", true);
+
+          // Update capsule to rolling height (lower, more like a sphere)
+          this.updateCapsuleCollider(this.config.capsuleRadius);
+
+          // Keep a constant speed along the facing direction for the whole roll
+          this.rollDirection = this.rotationTarget + this.characterRotationTarget;
+          this.rollSpeed = this.config.RUN_SPEED * 1.2;
+        },
+        exit: () => {
+          // Restore capsule to standing height when roll ends
+          this.updateCapsuleCollider(standingHalfHeight);
+        },
+        update: () => {
+          if (this.hasClipEvent("roll", "canCancel")) this.canCancel = true;
+          if (
+            this.isOneShotDone("roll") ||
+            (this.canCancel && (this.isMoving() || this.keys.jump))
+          ) {
+            return this.isGrounded ? "Grounded" : "Fall";
+          }
+          if (!this.isGrounded || this.applyRootMotion()) return;
+
+          if (this.canCancel) {
+            // Getting back up
+            this.dampVelocity();
+          } else {
+            this.velocity.x = Math.sin(this.rollDirection) * this.rollSpeed;
+            this.velocity.z = Math.cos(this.rollDirection) * this.rollSpeed;
+          }
+        },
+      },
+
+      Attack: {
+        enter: () => {
+          const step = this.combo.start();
+          if (step) this.playComboStep(step);
+        },
+        exit: () => this.combo.reset(),
+        update: () => {
+          const step = this.combo.getStep();
+          if (!step) return "Grounded";
+          if (!this.isGrounded) return "Fall";
+
+          const time = this.getAnimationProgress();
+          const next = this.combo.advance(time);
+          if (next) {
+            this.playComboStep(next);
+            return;
+          }
+
+          if (
+            this.isOneShotDone(step.animation) ||
+            (time >= step.cancelFrom && this.isMoving())
+          ) {
+            return "Grounded";
+          }
+          this.applyComboMovement(step, time);
+        },
+      },
+
+      Dance: {
+        update: () => {
+          if (!this.isGrounded) return "Fall";
+          if (!this.keys.dance) return "Grounded";
+          this.setAnimation("dance");
+          this.dampVelocity();
+        },
+      },
+
+      // Flinch from a hit; no input until the clip ends
+      Hit: {
+        enter: () => this.startHitReaction(),
+        update: () => {
+          if (this.isOneShotDone("hit")) {
+            return this.isGrounded ? "Grounded" : "Fall";
+          }
+          this.velocity.x = this.knockback.x;
+          this.velocity.z = this.knockback.z;
+          this.knockback.multiplyScalar(0.85);
+        },
+      },
+      Death: {
+        enter: () => {
+          this.setAnimation("death", true);
+          this.hurtbox.setEnabled(false);
+        },
+        exit: () => {
+          this.health.revive();
+          this.stamina.refill();
+          this.health.setInvulnerable(this.config.invulnerabilityTime);
+          this.hurtbox.setEnabled(true);
+        },
+        update: (_delta, time) => {
+          if (this.isGrounded) this.dampVelocity();
+          if (time >= this.config.respawnDelay) {
+            this.placeAtRespawn();
+            return "Fall";
+          }
+        },
+      },
+
+      // On a steep surface: no gravity, moving across the wall's plane
+      Climb: {
+        enter: () => {
+          this.motor?.setGravityEnabled(false);
+          this.velocity = { x: 0, y: 0, z: 0 };
+        },
+        exit: () => this.motor?.setGravityEnabled(true),
+        update: (delta) => {
+          const previous = this.climbHit;
+          const hit = previous ? this.probeWall(previous.normal.clone().negate()) : null;
+          if (!hit || hit.steepness < this.config.climbMinAngle) {
+            return this.letGoOfWall();
+          }
+          this.climbHit = hit;
+          const normal = hit.normal;
+
+          if (this.consumeJump()) {
+            // Push off and turn away from the wall
+            this.velocity.x = normal.x * this.config.climbJumpOffSpeed;
+            this.velocity.z = normal.z * this.config.climbJumpOffSpeed;
+            this.characterRotationTarget = Math.atan2(normal.x, normal.z) - this.rotationTarget;
+            this.climbCooldown = CLIMB_REGRAB_DELAY;
+            return "JumpStart";
+          }
+          if (this.keys.crouch) return this.letGoOfWall();
+
+          const moving = this.isMoving();
+          if (moving && !this.stamina.drain("climb", delta)) return this.letGoOfWall();
+          // Climbing down onto the ground
+          if (this.movement.z < 0 && this.isGrounded) return "Grounded";
+
+          // Axes across the surface: left (for A/D) and up along the slope
+          const left = new THREE.Vector3(0, 1, 0).cross(normal.clone().negate()).normalize();
+          const up = left.clone().cross(normal).normalize();
+
+          let upSpeed = this.movement.z * this.config.climbSpeed;
+          if (upSpeed > 0 && !this.probeWall(hit.normal.clone().negate(), this.getHeadHeight())) {
+            // The wall ends below the head: pull up over the edge if there's room
+            if (this.findClimbOverTarget(hit)) return "ClimbOver";
+            upSpeed = 0;
+          }
+          const sideSpeed = this.movement.x * this.config.climbSpeed;
+
+          this.velocity.x = up.x * upSpeed + left.x * sideSpeed - normal.x * CLIMB_STICK_SPEED;
+          this.velocity.y = up.y * upSpeed + left.y * sideSpeed - normal.y * CLIMB_STICK_SPEED;
+          this.velocity.z = up.z * upSpeed + left.z * sideSpeed - normal.z * CLIMB_STICK_SPEED;
+
+          // Face the wall, leaning with it
+          this.characterRotationTarget = Math.atan2(-normal.x, -normal.z) - this.rotationTarget;
+          this.climbTilt = THREE.MathUtils.degToRad(90 - hit.steepness);
+
+          // Hold still between strokes when not moving (play() resets the speed)
+          this.setAnimation("climb");
+          if (this.currentAnimation === "climb") {
+            this.currentAction?.setEffectiveTimeScale(moving ? 1 : 0);
+          }
+        },
+      },
+      // Hanging from a ledge: shimmy along it, jump to mantle, crouch or back to drop
+      Hang: {
+        enter: () => {
+          this.motor?.setGravityEnabled(false);
+          this.velocity = { x: 0, y: 0, z: 0 };
+          this.climbTilt = 0;
+        },
+        exit: () => this.motor?.setGravityEnabled(true),
+        update: (delta) => {
+          if (!this.rigidBody) return "Fall";
+          if (this.keys.crouch || this.movement.z < 0) return this.letGoOfWall();
+
+          const previous = this.climbHit;
+          const hit = previous
+            ? this.probeWall(previous.normal.clone().negate(), LEDGE_PROBE_HEIGHT)
+            : null;
+          const target = hit ? this.findHangPosition(hit) : null;
+          if (!hit || !target) return this.letGoOfWall();
+          this.climbHit = hit;
+          const normal = hit.normal;
+
+          if (this.consumeJump() && this.findClimbOverTarget(hit)) return "ClimbOver";
+
+          // Shimmy only while there's edge to hold on the way
+          const left = new THREE.Vector3(0, 1, 0).cross(normal.clone().negate()).normalize();
+          let sideSpeed = this.movement.x * HANG_SHIMMY_SPEED;
+          if (sideSpeed !== 0) {
+            const ahead = hit.point
+              .clone()
+              .addScaledVector(left, Math.sign(sideSpeed) * (this.config.capsuleRadius + 0.1));
+            if (!this.findLedgeAbove(ahead, normal)) {
+              sideSpeed = 0;
+            } else if (!this.stamina.drain("climb", delta)) {
+              return this.letGoOfWall();
+            }
+          }
+
+          // Settle under the edge; the sideways part is left to the shimmy
+          const position = this.rigidBody.translation();
+          const settle = target
+            .sub(position)
+            .multiplyScalar(HANG_SETTLE_RATE)
+            .clampLength(0, HANG_SETTLE_SPEED);
+          settle.addScaledVector(left, sideSpeed - settle.dot(left));
+          this.velocity = { x: settle.x, y: settle.y, z: settle.z };
+
+          this.characterRotationTarget = Math.atan2(-normal.x, -normal.z) - this.rotationTarget;
+
+          this.setAnimation("hang");
+          if (this.currentAnimation === "hang" && this.currentAction) {
+            this.currentAction.setEffectiveTimeScale(0);
+            this.currentAction.time = this.currentAction.getClip().duration * HANG_POSE_TIME;
+          }
+        },
+      },
+      // Up past the edge, then forward onto the top (from a climb or a hang)
+      ClimbOver: {
+        enter: () => {
+          this.motor?.setGravityEnabled(false);
+          this.climbOverRising = true;
+        },
+        exit: () => {
+          this.motor?.setGravityEnabled(true);
+          this.climbHit = null;
+          this.climbCooldown = CLIMB_REGRAB_DELAY;
+        },
+        update: (_delta, time) => {
+          if (!this.rigidBody) return "Fall";
+          if (time >= CLIMB_OVER_TIMEOUT) return this.isGrounded ? "Grounded" : "Fall";
+
+          const position = this.rigidBody.translation();
+          const target = this.climbOverTarget;
+          if (this.climbOverRising && position.y < target.y) {
+            this.velocity = { x: 0, y: CLIMB_OVER_SPEED, z: 0 };
+            return;
+          }
+          if (this.climbOverRising) {
+            this.climbOverRising = false;
+            this.setAnimation("jumpLand", true);
+          }
+
+          const dx = target.x - position.x;
+          const dz = target.z - position.z;
+          const distance = Math.hypot(dx, dz);
+          if (distance < 0.1) return "Grounded";
+          this.velocity = {
+            x: (dx / distance) * CLIMB_OVER_SPEED,
+            y: 0,
+            z: (dz / distance) * CLIMB_OVER_SPEED,
+          };
+        },
+      },
+      // Ground too steep to walk on: gravity takes over, A/D steer a little
+      Slide: {
+        enter: () => {
+          // Keeps the momentum it already had down the slope
+          const { x, y, z } = this.velocity;
+          this.slideSpeed = THREE.MathUtils.clamp(
+            this.getDownhill().dot(new THREE.Vector3(x, y, z)),
+            0,
+            this.config.slideMaxSpeed
+          );
+        },
+        update: (delta) => {
+          if (!this.isGrounded) return "Fall";
+          if (this.groundAngle < this.config.maxWalkableAngle - SLIDE_EXIT_MARGIN) {
+            return "Grounded";
+          }
+
+          const downhill = this.getDownhill();
+          const gravity = this.world ? Math.abs(this.world.gravity.y) : 9.81;
+          const pull = gravity * Math.sin(THREE.MathUtils.degToRad(this.groundAngle));
+          this.slideSpeed = THREE.MathUtils.clamp(
+            this.slideSpeed + (pull - SLIDE_FRICTION) * delta,
+            0,
+            this.config.slideMaxSpeed
+          );
+
+          const left = new THREE.Vector3(0, 1, 0).cross(downhill).normalize();
+          const velocity = downhill
+            .clone()
+            .multiplyScalar(this.slideSpeed)
+            .addScaledVector(left, this.movement.x * SLIDE_STEER_SPEED);
+          this.velocity = { x: velocity.x, y: velocity.y, z: velocity.z };
+
+          this.characterRotationTarget = Math.atan2(downhill.x, downhill.z) - this.rotationTarget;
+          this.setAnimation("slide");
+        },
+      },
+    };
+  }
+
+  private setupInputListeners(): void {
     // Keyboard
     window.addEventListener("keydown", this.handleKeyDown);
     window.addEventListener("keyup", this.handleKeyUp);
@@ -223,7 +1322,7 @@ export class CharacterController {
     }
   }
 
-  handleClick() {
+  private handleClick(): void {
     if (this.cameraMode === "follow-orbit" && !this.isPointerLocked) {
       const canvas = document.querySelector("canvas");
       if (canvas) {
@@ -232,7 +1331,7 @@ export class CharacterController {
     }
   }
 
-  handleKeyDown(e) {
+  private handleKeyDown(e: KeyboardEvent): void {
     const key = e.key.toLowerCase();
     switch (key) {
       case "w":
@@ -257,6 +1356,8 @@ export class CharacterController {
         this.keys.run = true;
         break;
       case " ":
+        // Key repeat doesn't refresh the buffer
+        if (!this.keys.jump) this.jumpBufferTimer = this.config.jumpBufferTime;
         this.keys.jump = true;
         break;
       case "control":
@@ -270,12 +1371,13 @@ export class CharacterController {
         this.keys.roll = true;
         break;
       case "r":
-        this.combatMode = !this.combatMode;
+        // Holding R toggles once
+        if (!e.repeat) this.sheatheRequested = true;
         break;
     }
   }
 
-  handleKeyUp(e) {
+  private handleKeyUp(e: KeyboardEvent): void {
     const key = e.key.toLowerCase();
     switch (key) {
       case "w":
@@ -315,31 +1417,24 @@ export class CharacterController {
     }
   }
 
-  handleMouseDown(e) {
-    if (!this.combatMode || this.isAttacking) return;
-
-    this.isAttacking = true;
+  private handleMouseDown(e: MouseEvent): void {
+    if (!this.combatMode || this.sheatheTarget !== null) return;
 
+    // Buffered until the Grounded or Attack state picks it up
     if (e.button === 0) {
-      this.setAnimation("swordAttack");
-      setTimeout(() => {
-        this.isAttacking = false;
-      }, 600);
+      this.combo.press("light");
     } else if (e.button === 2) {
-      this.setAnimation("swordAttackAlt");
-      setTimeout(() => {
-        this.isAttacking = false;
-      }, 600);
+      this.combo.press("heavy");
     }
   }
 
-  handleContextMenu(e) {
+  private handleContextMenu(e: MouseEvent): void {
     if (this.combatMode) {
       e.preventDefault();
     }
   }
 
-  handleMouseMove(e) {
+  private handleMouseMove(e: MouseEvent): void {
     if (this.cameraMode !== "follow-orbit" || !this.isPointerLocked) return;
 
     const deltaX = e.movementX || 0;
@@ -355,13 +1450,13 @@ export class CharacterController {
     );
   }
 
-  handlePointerLockChange() {
+  private handlePointerLockChange(): void {
     const canvas = document.querySelector("canvas");
     this.isPointerLocked = document.pointerLockElement === canvas;
     document.body.style.cursor = this.isPointerLocked ? "none" : "auto";
   }
 
-  async loadModel() {
+  private async loadModel(): Promise<void> {
     // Setup DRACO loader for compressed models
     const dracoLoader = new DRACOLoader();
     // Use CDN for draco decoder (works with Vite)
@@ -382,7 +1477,7 @@ export class CharacterController {
 
       // Find meshes and setup
       clonedScene.traverse((child) => {
-        if (child.isMesh) {
+        if ((child as THREE.Mesh).isMesh) {
           child.castShadow = true;
           child.receiveShadow = true;
           child.frustumCulled = false;
@@ -395,18 +1490,64 @@ export class CharacterController {
       this.animationGroup.scale.setScalar(this.config.characterScale);
 
       // Setup animations
-      this.mixer = new THREE.AnimationMixer(clonedScene);
+      const mixer = new THREE.AnimationMixer(clonedScene);
+      this.mixer = mixer;
 
+      // Clips on the root let the mixer find actions by clip name (used by the clip events)
+      clonedScene.animations = gltf.animations;
       gltf.animations.forEach((clip) => {
-        const action = this.mixer.clipAction(clip);
-        this.actions[clip.name] = action;
+        this.actions[clip.name] = mixer.clipAction(clip);
+      });
+
+      // Clip events for the states (collected per frame)
+      this.animationEvents = new AnimationEvents(mixer);
+      this.animationEvents.setMarkers(CLIP_MARKERS);
+      this.animationEvents.on("*", (event) => {
+        this.clipEvents.add(`${event.clip}:${event.name}`);
       });
 
       // Find foot bones
       this.findFootBones(clonedScene);
+      if (
+        this.leftFootBone &&
+        this.rightFootBone &&
+        FootIK.canSolve(this.leftFootBone, this.rightFootBone)
+      ) {
+        this.footIK = new FootIK(clonedScene, this.leftFootBone, this.rightFootBone);
+      } else {
+        console.warn("Leg bones not found, foot IK disabled");
+      }
+
+      // Root bone carries the root motion of the *_RM clips
+      const rootBone = clonedScene.getObjectByName("root");
+      if (rootBone) {
+        this.rootMotion = new RootMotion(rootBone);
+      } else {
+        console.warn("Root bone not found, root motion disabled");
+      }
+
+      this.createLocomotionBlends();
+
+      const findBone = (name: string) =>
+        clonedScene.getObjectByName(THREE.PropertyBinding.sanitizeNodeName(name)) ?? null;
+
+      // The (invisible) sword is held in the right hand
+      this.swordHand = findBone(RIGHT_HAND_BONE);
+      if (this.swordHand) {
+        this.swordHitbox?.attach(this.swordHand, this.character);
+      } else {
+        console.warn("Sword hand bone not found, attacks can't hit");
+      }
+
+      const leftHand = findBone(LEFT_HAND_BONE);
+      if (leftHand && this.swordHand) {
+        this.glider.attach(leftHand, this.swordHand);
+      } else {
+        console.warn("Hand bones not found, the glider won't follow the hands");
+      }
 
-      // Start with idle
-      this.setAnimation("idle");
+      this.animationLayers = new AnimationLayers(mixer, clonedScene);
+      this.animationLayers.addLayer("upperBody", { mask: UPPER_BODY_BONES });
 
       // Initialize footstep particles
       if (this.config.enableFootstepParticles) {
@@ -419,7 +1560,7 @@ export class CharacterController {
     }
   }
 
-  findFootBones(scene) {
+  private findFootBones(scene: THREE.Object3D): void {
     const leftFootCandidates = [
       "mixamorigLeftFoot",
       "mixamorig_LeftFoot",
@@ -434,7 +1575,7 @@ export class CharacterController {
     ];
 
     scene.traverse((node) => {
-      if (node.isBone) {
+      if ((node as THREE.Bone).isBone) {
         const nameLower = node.name.toLowerCase();
 
         if (
@@ -456,18 +1597,24 @@ export class CharacterController {
       console.log("Found right foot bone:", this.rightFootBone.name);
   }
 
-  setAnimation(animName) {
-    if (this.currentAnimation === animName) return;
+  /**
+   * Crossfade to an animation. restart replays it when it's already current
+   * (one-shots entered again before anything else played).
+   */
+  private setAnimation(animName: AnimationName, restart: boolean = false): void {
+    // States pick animations before the model has loaded
+    if (!this.mixer) return;
+    if (this.currentAnimation === animName && !restart) return;
 
-    // Prevent rapid animation switches (except for jump/land animations which need to be immediate)
-    const priorityAnimations = ["jumpStart", "jumpLoop", "jumpLand", "roll"];
-    const isPriority = priorityAnimations.includes(animName);
+    // Prevent rapid animation switches (except for one-shots and the jump loop which need to be immediate)
+    const isOneShot = ONE_SHOT_ANIMATIONS.includes(animName);
+    const isPriority = isOneShot || animName === "jumpLoop";
 
     if (!isPriority && this.animationChangeCooldown > 0) {
       return;
     }
 
-    const mappedName = this.animationMap[animName] || this.animationMap.idle;
+    const mappedName = this.getClipName(animName);
     const nextAction = this.actions[mappedName];
 
     if (!nextAction) {
@@ -475,16 +1622,22 @@ export class CharacterController {
       return;
     }
 
-    if (this.currentAction) {
+    if (this.currentAction && this.currentAction !== nextAction) {
       this.currentAction.fadeOut(0.15);
     }
+    if (this.activeBlendSpace) {
+      this.activeBlendSpace.stop(0.15);
+      this.activeBlendSpace = null;
+    }
 
-    nextAction
-      .reset()
-      .setEffectiveTimeScale(1)
-      .setEffectiveWeight(1)
-      .fadeIn(0.15)
-      .play();
+    nextAction.setLoop(isOneShot ? THREE.LoopOnce : THREE.LoopRepeat, Infinity);
+    nextAction.clampWhenFinished = isOneShot;
+    nextAction.reset().setEffectiveTimeScale(1).setEffectiveWeight(1);
+    // Restarting the current clip cuts; fading it in again would dip through the bind pose
+    if (this.currentAction !== nextAction) {
+      nextAction.fadeIn(0.15);
+    }
+    nextAction.play();
 
     this.currentAction = nextAction;
     this.currentAnimation = animName;
@@ -495,19 +1648,409 @@ export class CharacterController {
     }
   }
 
-  createPhysicsBody(position = [0, 2, 0]) {
+  /**
+   * Idle / walk / sprint weighted by speed (sample positions are the speeds
+   * the movement code drives), standing and crouched
+   */
+  private createLocomotionBlends(): void {
+    const { WALK_SPEED, RUN_SPEED } = this.config;
+    const action = (animName: AnimationName) => this.actions[this.animationMap[animName]];
+    const idle = action("idle");
+    const walk = action("walk");
+    const run = action("run");
+    const crouchIdle = action("crouchIdle");
+    const crouchWalk = action("crouchWalk");
+
+    if (idle && walk && run) {
+      this.standingBlend = new BlendSpace1D([
+        { action: idle, position: 0, syncPhase: false },
+        { action: walk, position: WALK_SPEED },
+        { action: run, position: RUN_SPEED },
+      ]);
+    } else {
+      console.warn("Standing locomotion clips missing, blend space disabled");
+    }
+
+    // Its own copy of the idle, so the two spaces never drive the same action
+    const tiredWalk = action("tiredWalk");
+    if (idle && tiredWalk && this.mixer) {
+      const tiredIdle = this.mixer.clipAction(idle.getClip().clone());
+      this.tiredBlend = new BlendSpace1D([
+        { action: tiredIdle, position: 0, syncPhase: false },
+        { action: tiredWalk, position: WALK_SPEED },
+      ]);
+    } else {
+      console.warn("Tired locomotion clips missing, exhausted characters use the regular walk");
+    }
+
+    if (crouchIdle && crouchWalk) {
+      this.crouchBlend = new BlendSpace1D([
+        { action: crouchIdle, position: 0, syncPhase: false },
+        { action: crouchWalk, position: WALK_SPEED * 0.5 },
+      ]);
+    } else {
+      console.warn("Crouch locomotion clips missing, blend space disabled");
+    }
+  }
+
+  private playStandingLocomotion(): void {
+    // Moving in combat mode, the upper-body layer holds the sword instead
+    if (this.combatMode && !this.isMoving()) {
+      this.setAnimation("swordIdle");
+    } else if (this.stamina.isExhausted() && this.tiredBlend) {
+      this.playBlendSpace(this.tiredBlend);
+    } else {
+      this.playBlendSpace(this.standingBlend);
+    }
+  }
+
+  /**
+   * Crossfade from the current clip (or another blend space) to a blend space
+   */
+  private playBlendSpace(blendSpace: BlendSpace1D | null): void {
+    if (!blendSpace || this.activeBlendSpace === blendSpace) return;
+
+    if (this.currentAction) {
+      this.currentAction.fadeOut(0.15);
+      this.currentAction = null;
+    }
+    this.activeBlendSpace?.stop(0.15);
+
+    blendSpace.play(0.15);
+    this.activeBlendSpace = blendSpace;
+    this.currentAnimation = null;
+  }
+
+  /**
+   * Swing the sword on the upper-body layer; clicks during a swing are ignored
+   */
+  private playUpperBodyAttack(input: ComboInput | null): void {
+    if (!input || !this.animationLayers || this.isUpperBodyAttacking()) return;
+
+    // In-place clip: the layer doesn't drive the root anyway
+    const animName: AttackAnimation = input === "light" ? "swordAttack" : "swordAttackAlt";
+    const action = this.actions[this.animationMap[animName]];
+    if (!action) return;
+    this.animationLayers.play("upperBody", action.getClip(), { restart: true });
+
+    // Hits like the first step of the chain the input would start
+    const stepName = SWORD_COMBO.start[input];
+    const step = stepName ? SWORD_COMBO.steps[stepName] : null;
+    this.upperBodyAttack = step
+      ? { clip: action.getClip().name, attack: this.getAttackInfo(step) }
+      : null;
+  }
+
+  private isUpperBodyAttacking(): boolean {
+    return (
+      !!this.animationLayers &&
+      (this.animationLayers.isPlaying("upperBody", this.animationMap.swordAttack) ||
+        this.animationLayers.isPlaying("upperBody", this.animationMap.swordAttackAlt))
+    );
+  }
+
+  /**
+   * The upper-body layer only plays over grounded locomotion: it holds the
+   * sword while moving in combat mode and lets attacks on the move finish
+   */
+  private updateUpperBody(): void {
+    if (!this.animationLayers) return;
+
+    if (!this.stateMachine.is("Grounded")) {
+      this.animationLayers.stop("upperBody");
+      return;
+    }
+    if (this.isUpperBodyAttacking() || this.sheatheTarget !== null) return;
+
+    const swordIdle = this.actions[this.animationMap.swordIdle];
+    if (this.combatMode && this.activeBlendSpace && swordIdle) {
+      this.animationLayers.play("upperBody", swordIdle.getClip(), { loop: true });
+    } else {
+      this.animationLayers.stop("upperBody");
+    }
+  }
+
+  /**
+   * Toggle combat mode through the sheathe animation; the mode flips when
+   * the hand reaches the sword. Without the model (or off the ground) it
+   * flips right away.
+   */
+  private updateSheathe(): void {
+    const layers = this.animationLayers;
+    const clip = this.actions[SHEATHE_CLIP]?.getClip();
+
+    if (this.sheatheRequested && this.sheatheTarget === null) {
+      this.sheatheTarget = !this.combatMode;
+      if (layers && clip && this.stateMachine.is("Grounded")) {
+        layers.play("upperBody", clip, { timeScale: SHEATHE_SPEED, restart: true });
+      }
+    }
+    this.sheatheRequested = false;
+
+    if (this.sheatheTarget === null) return;
+
+    // null once the clip is done (or was never played)
+    const progress =
+      layers && clip && layers.isPlaying("upperBody", clip.name)
+        ? layers.getProgress("upperBody")
+        : null;
+    if (progress === null || progress >= SHEATHE_SWAP_TIME) {
+      this.combatMode = this.sheatheTarget;
+    }
+    if (progress === null) {
+      this.sheatheTarget = null;
+    }
+  }
+
+  /**
+   * Play a combo step's clip at its speed
+   */
+  private playComboStep(step: ComboStep<AttackAnimation>): void {
+    this.setAnimation(step.animation, true);
+    if (this.currentAction) {
+      this.currentAction.timeScale = step.speed ?? 1;
+    }
+  }
+
+  /**
+   * Root motion when the clip has it, otherwise the step's own movement
+   * along the facing direction
+   */
+  private applyComboMovement(step: ComboStep<AttackAnimation>, time: number): void {
+    if (this.applyRootMotion()) return;
+
+    const movement = step.movement;
+    if (movement && time >= movement.from && time <= movement.to) {
+      const direction = this.rotationTarget + this.characterRotationTarget;
+      this.velocity.x = Math.sin(direction) * movement.speed;
+      this.velocity.z = Math.cos(direction) * movement.speed;
+    } else {
+      this.dampVelocity();
+    }
+  }
+
+  private getAttackInfo(step: ComboStep<AttackAnimation>): AttackInfo {
+    return {
+      damage: step.damage,
+      knockback: step.finisher ? FINISHER_KNOCKBACK : ATTACK_KNOCKBACK,
+    };
+  }
+
+  /**
+   * Switch the sword hitbox on during the active frames of the sword clip
+   * being played, full body (combo step) or on the upper-body layer
+   */
+  private updateSwordHitbox(): void {
+    const hitbox = this.swordHitbox;
+    if (!hitbox) return;
+    hitbox.update();
+
+    let clip: string | null = null;
+    let progress = 0;
+    let attack: AttackInfo | null = null;
+
+    const step = this.combo.getStep();
+    if (this.stateMachine.is("Attack") && step && this.currentAction) {
+      clip = this.currentAction.getClip().name;
+      progress = this.getAnimationProgress();
+      attack = this.getAttackInfo(step);
+    } else if (this.upperBodyAttack && this.isUpperBodyAttacking()) {
+      clip = this.upperBodyAttack.clip;
+      progress = this.animationLayers?.getProgress("upperBody") ?? 1;
+      attack = this.upperBodyAttack.attack;
+    }
+
+    const frames = clip ? ATTACK_ACTIVE_FRAMES[clip] : undefined;
+    const live = !!frames && progress >= frames[0] && progress <= frames[1];
+    if (live && attack) {
+      // A restarted clip (next combo step) left the frames in between,
+      // so this is a fresh swing
+      if (!hitbox.isActive()) hitbox.activate(attack);
+    } else {
+      hitbox.deactivate();
+    }
+  }
+
+  /**
+   * Give the character a sword hitbox that hits hurtboxes registered with
+   * the combat system
+   */
+  setCombatSystem(combat: CombatSystem): void {
+    if (this.swordHitbox || !this.world) return;
+
+    this.combat = combat;
+    this.registerHurtbox();
+
+    this.swordHitbox = new Hitbox({
+      name: "Sword",
+      owner: this,
+      offset: [0, 0.3, 0],
+      radius: 0.35,
+      length: 0.6,
+    });
+    this.swordHitbox.addPhysics(this.rapierInstance, this.world, combat);
+    if (this.swordHand) {
+      this.swordHitbox.attach(this.swordHand, this.character);
+    }
+  }
+
+  /**
+   * Updrafts that lift the character while gliding
+   */
+  setUpdrafts(updrafts: UpdraftVolume[]): void {
+    this.updrafts = updrafts;
+  }
+
+  /**
+   * The capsule is the character's hurtbox; it's rebuilt when crouching
+   */
+  private registerHurtbox(): void {
+    if (!this.combat || !this.collider) return;
+    this.combat.addHurtbox(this.hurtbox, this.collider);
+  }
+
+  /**
+   * Lose health: physical hits flinch, lethal damage of any type kills.
+   * Returns what was applied, or null if it was ignored (invulnerable, dead).
+   */
+  takeDamage(info: DamageInfo): DamageResult | null {
+    const result = this.hurt(info);
+    if (!result) return null;
+
+    if (result.lethal) {
+      this.stateMachine.transition("Death");
+    } else if (result.type === "physical") {
+      // Another hit mid-flinch restarts the reaction
+      if (this.stateMachine.is("Hit")) {
+        this.startHitReaction();
+      } else {
+        this.stateMachine.transition("Hit");
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Apply damage without reacting to it; states use this and return the
+   * reaction themselves
+   */
+  private hurt(info: DamageInfo): DamageResult | null {
+    const result = this.health.applyDamage(info);
+    if (!result) return null;
+
+    this.lastDamage = result;
+    return result;
+  }
+
+  private startHitReaction(): void {
+    this.setAnimation("hit", true);
+
+    const hit = this.lastDamage;
+    this.knockback.set(0, 0, 0);
+    if (hit?.direction && hit.knockback) {
+      this.knockback.copy(hit.direction).setY(0).multiplyScalar(hit.knockback);
+    }
+  }
+
+  /**
+   * Where (capsule center) and facing (radians) to respawn,
+   * e.g. the last checkpoint reached
+   */
+  setRespawnPoint(position: [number, number, number], rotation: number = 0): void {
+    this.respawnPosition.set(position[0], position[1], position[2]);
+    this.respawnRotation = rotation;
+  }
+
+  /**
+   * Back to the respawn point with full health
+   */
+  respawn(): void {
+    this.placeAtRespawn();
+    this.health.revive();
+    this.stamina.refill();
+    this.stateMachine.transition("Fall");
+  }
+
+  /**
+   * Teleport the body to the respawn point at rest and put the camera back
+   * behind the character
+   */
+  private placeAtRespawn(): void {
+    if (!this.rigidBody || !this.motor) return;
+
+    this.rigidBody.setTranslation(this.respawnPosition, true);
+    this.velocity = { x: 0, y: 0, z: 0 };
+    this.motor.setVelocity(this.velocity);
+    this.knockback.set(0, 0, 0);
+    this.pendingLandingForce = 0;
+    this.fallSpeed = 0;
+    this.landingRollTimer = 0;
+
+    // No interpolation from where the body was
+    this.prevPosition.copy(this.respawnPosition);
+    this.currentPosition.copy(this.respawnPosition);
+    this.container.position.copy(this.respawnPosition);
+
+    this.rotationTarget = this.respawnRotation;
+    this.characterRotationTarget = 0;
+    this.mouseOrbitOffset = 0;
+    this.mouseVerticalOffset = 0;
+    this.container.rotation.y = this.respawnRotation;
+    this.character.rotation.y = 0;
+    // Snap the camera on the next frame instead of lerping across the level
+    this.cameraInitialized = false;
+  }
+
+  /**
+   * Below the kill plane: take fall-out damage and go back to the last
+   * checkpoint (dying there if it was lethal)
+   */
+  private checkKillPlane(): void {
+    if (!this.rigidBody || this.rigidBody.translation().y > this.config.killHeight) {
+      return;
+    }
+
+    this.takeDamage({ amount: this.config.fallOutDamage, type: "void" });
+    this.placeAtRespawn();
+    if (!this.health.isDead()) {
+      this.stateMachine.transition("Fall");
+    }
+  }
+
+  getHealth(): Health {
+    return this.health;
+  }
+
+  /**
+   * Stamina pool; getState() is the snapshot for HUDs
+   */
+  getStamina(): Stamina {
+    return this.stamina;
+  }
+
+  getHurtbox(): Hurtbox {
+    return this.hurtbox;
+  }
+
+  /**
+   * Normalized time (0-1) of the current discrete clip
+   */
+  private getAnimationProgress(): number {
+    if (!this.currentAction) return 1;
+    const duration = this.currentAction.getClip().duration;
+    return duration > 0 ? this.currentAction.time / duration : 1;
+  }
+
+  createPhysicsBody(position: [number, number, number] = [0, 2, 0]): void {
     if (!this.world) return;
 
-    // Use the RAPIER instance (either passed in or imported)
+    // Use the RAPIER instance passed in from PhysicsManager
     const RAPIER = this.rapierInstance;
 
-    // Create rigid body
-    const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic()
-      .setTranslation(...position)
-      .setCanSleep(false)
-      .setCcdEnabled(true);
-
-    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    // Create rigid body through the movement backend
+    const motor = this.createMotor();
+    this.motor = motor;
+    this.rigidBody = motor.createBody(position);
 
     // Initialize interpolation positions
     this.prevPosition.set(position[0], position[1], position[2]);
@@ -526,13 +2069,87 @@ export class CharacterController {
       this.colliderDesc,
       this.rigidBody
     );
+    motor.setCollider(this.collider);
+    this.registerColliderEvents();
+    this.registerHurtbox();
+  }
+
+  private createMotor(): CharacterMotor {
+    if (this.config.movementBackend === "kinematic") {
+      return new KinematicCharacterMotor(
+        this.rapierInstance,
+        this.world,
+        this.getKinematicMotorSettings()
+      );
+    }
+    return new DynamicCharacterMotor(this.rapierInstance, this.world);
+  }
 
-    // Lock rotations
-    this.rigidBody.lockRotations(true, true);
+  private getKinematicMotorSettings(): KinematicMotorSettings {
+    return {
+      maxClimbAngle: this.config.maxClimbAngle,
+      minSlideAngle: this.config.minSlideAngle,
+      autostepHeight: this.config.autostepHeight,
+      autostepMinWidth: this.config.autostepMinWidth,
+      snapToGround: this.config.snapToGround,
+    };
+  }
+
+  /**
+   * Update kinematic backend settings (maxClimbAngle, autostepHeight...)
+   * and jump / wall run tuning. Stored in config so they survive switching backends
+   */
+  setMovementSettings(settings: CharacterMovementSettings): void {
+    Object.assign(this.config, settings);
+    if (this.motor instanceof KinematicCharacterMotor) {
+      this.motor.configure(this.getKinematicMotorSettings());
+    }
+  }
+
+  /**
+   * Swap movement backends in place, keeping position and velocity
+   */
+  setMovementBackend(backend: MovementBackend): void {
+    this.config.movementBackend = backend;
+    if (!this.motor || !this.rigidBody || this.motor.backend === backend) return;
+
+    const { x, y, z } = this.rigidBody.translation();
+    const velocity = this.motor.getVelocity();
+    const crouchHalfHeight = this.currentCapsuleHalfHeight;
+
+    if (this.physicsEvents && this.collider) {
+      this.physicsEvents.removeCollider(this.collider);
+    }
+    if (this.combat && this.collider) {
+      this.combat.removeCollider(this.collider);
+    }
+    // Removing the body also removes its collider
+    this.motor.dispose();
+
+    // createPhysicsBody builds a standing capsule; keep the feet where they were
+    this.currentCapsuleHalfHeight = this.config.capsuleHeight / 2;
+    this.createPhysicsBody([
+      x,
+      y + this.currentCapsuleHalfHeight - crouchHalfHeight,
+      z,
+    ]);
+    this.motor.setVelocity(velocity);
+    if (this.isOnWall()) {
+      this.motor.setGravityEnabled(false);
+    }
   }
 
-  updateCapsuleCollider(targetHalfHeight) {
-    if (!this.rigidBody || !this.world || !this.collider) return;
+  /**
+   * Called by PhysicsManager before every world step
+   */
+  fixedUpdate(dt: number): void {
+    if (this.motor) {
+      this.motor.step(dt);
+    }
+  }
+
+  private updateCapsuleCollider(targetHalfHeight: number): void {
+    if (!this.rigidBody || !this.world || !this.collider || !this.motor) return;
 
     const RAPIER = this.rapierInstance;
     const currentPos = this.rigidBody.translation();
@@ -542,6 +2159,10 @@ export class CharacterController {
     if (Math.abs(currentHalfHeight - targetHalfHeight) < 0.01) return;
 
     // Remove old collider
+    if (this.physicsEvents) {
+      this.physicsEvents.removeCollider(this.collider);
+    }
+    this.combat?.removeCollider(this.collider);
     this.world.removeCollider(this.collider, true);
 
     // Create new collider with updated height
@@ -556,6 +2177,9 @@ export class CharacterController {
       this.colliderDesc,
       this.rigidBody
     );
+    this.motor.setCollider(this.collider);
+    this.registerColliderEvents();
+    this.registerHurtbox();
 
     // Update tracked height
     this.currentCapsuleHalfHeight = targetHalfHeight;
@@ -589,43 +2213,156 @@ export class CharacterController {
     }
   }
 
-  checkGroundedRapier() {
-    if (!this.rigidBody || !this.world) return false;
+  /**
+   * Subscribe to collision events from the PhysicsManager event bus
+   * The capsule is registered with this controller as owner, so listeners
+   * survive the collider being rebuilt when crouching
+   */
+  setPhysicsEvents(physicsEvents: PhysicsEventBus | null): void {
+    this.physicsEvents = physicsEvents;
+    if (!physicsEvents) return;
+
+    physicsEvents.onOwner(this, "contactForce", (event) => {
+      // Only mostly-vertical contacts while airborne or landing count
+      const landing = this.stateMachine.is("Land");
+      if (
+        (this.wasGrounded && !landing) ||
+        Math.abs(event.maxForceDirection.y) < 0.7
+      ) {
+        return;
+      }
+      this.pendingLandingForce = Math.max(
+        this.pendingLandingForce,
+        event.totalForceMagnitude
+      );
 
-    const RAPIER = this.rapierInstance;
-    const position = this.rigidBody.translation();
+      // The ground ray can report grounded a step before the capsule touches
+      if (landing && this.pendingLandingForce > this.lastLandingImpact) {
+        this.lastLandingImpact = this.pendingLandingForce;
+      }
+    });
 
-    // Use tracked current half height (updated by updateCapsuleCollider)
-    const currentHalfHeight = this.currentCapsuleHalfHeight;
+    this.registerColliderEvents();
+  }
 
-    const rayOrigin = {
-      x: position.x,
-      y: position.y - currentHalfHeight - this.config.capsuleRadius + 0.05,
-      z: position.z,
+  private registerColliderEvents(): void {
+    if (!this.physicsEvents || !this.collider) return;
+    this.physicsEvents.setOwner(this.collider, this, {
+      contactForceThreshold: this.config.landingImpactThreshold,
+    });
+    this.physicsEvents.setTags(this.collider, ["player"]);
+  }
+
+  /**
+   * Vertical speed (m/s) at the most recent touchdown
+   */
+  getLastImpactSpeed(): number {
+    return this.impactSpeed;
+  }
+
+  /**
+   * Contact force of the most recent landing, 0 if it was too soft to report
+   */
+  getLastLandingImpact(): number {
+    return this.lastLandingImpact;
+  }
+
+  /**
+   * Current locomotion leaf state, e.g. "Walk" or "Fall"
+   */
+  getState(): CharacterState | null {
+    return this.stateMachine.getState();
+  }
+
+  /**
+   * Active states from the root, e.g. "Airborne/Fall"
+   */
+  getStatePath(): string {
+    return this.stateMachine.getPath();
+  }
+
+  private checkGroundedRapier(): boolean {
+    this.groundCollider = null;
+    this.groundNormal.set(0, 1, 0);
+    this.groundAngle = 0;
+    if (!this.rigidBody || !this.world) return false;
+
+    const RAPIER = this.rapierInstance;
+    const position = this.rigidBody.translation();
+
+    // Use tracked current half height (updated by updateCapsuleCollider)
+    const currentHalfHeight = this.currentCapsuleHalfHeight;
+
+    const rayOrigin = {
+      x: position.x,
+      y: position.y - currentHalfHeight - this.config.capsuleRadius + 0.05,
+      z: position.z,
     };
     const rayDirection = { x: 0, y: -1, z: 0 };
-    const rayLength = 0.2;
 
     const ray = new RAPIER.Ray(rayOrigin, rayDirection);
-    const hit = this.world.castRay(
+    const hit = this.world.castRayAndGetNormal(
       ray,
-      rayLength,
+      GROUND_RAY_LENGTH,
       true,
-      undefined,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
       undefined,
       undefined,
       this.rigidBody
     );
+    if (!hit || hit.normal.y <= 0) return false;
+
+    // Gap between the bottom sphere and the surface's plane; on flat ground
+    // that's just the ray distance, on a slope the sphere touches uphill of it
+    const normal = new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z).normalize();
+    const gap = (hit.timeOfImpact - 0.05 + this.config.capsuleRadius) * normal.y -
+      this.config.capsuleRadius;
+    if (gap > GROUND_TOLERANCE) return false;
+
+    this.groundCollider = hit.collider;
+    this.groundNormal.copy(normal);
+    this.groundAngle = THREE.MathUtils.radToDeg(Math.acos(Math.min(normal.y, 1)));
+    return true;
+  }
 
-    if (hit) {
-      const hitToi = hit.toi ?? hit.timeOfImpact ?? hit.time_of_impact;
-      return typeof hitToi === "number" && hitToi <= rayLength;
-    }
+  /**
+   * Steepest way down the ground surface (zero on flat ground)
+   */
+  private getDownhill(): THREE.Vector3 {
+    const normal = this.groundNormal;
+    const downhill = new THREE.Vector3(
+      normal.x * normal.y,
+      normal.y * normal.y - 1,
+      normal.z * normal.y
+    );
+    return downhill.lengthSq() > 1e-6 ? downhill.normalize() : downhill;
+  }
 
-    return false;
+  /**
+   * How much the feet should be planted by the IK in the current state
+   */
+  private getFootIKWeight(): number {
+    if (!this.isGrounded) return 0;
+    return FOOT_IK_STATES.some((state) => this.stateMachine.is(state)) ? 1 : 0;
+  }
+
+  /**
+   * Standing on ground too steep to walk on
+   */
+  private isOnSteepGround(): boolean {
+    return this.isGrounded && this.groundAngle > this.config.maxWalkableAngle;
   }
 
-  checkCeilingClearance() {
+  /**
+   * The moving platform under the character, if the ground ray hit one
+   */
+  private getGroundPlatform(): MovingPlatform | null {
+    if (!this.groundCollider || !this.physicsEvents) return null;
+    const owner = this.physicsEvents.getOwner(this.groundCollider);
+    return owner instanceof MovingPlatform ? owner : null;
+  }
+
+  private checkCeilingClearance(): boolean {
     if (!this.rigidBody || !this.world) return true;
 
     const RAPIER = this.rapierInstance;
@@ -647,7 +2384,7 @@ export class CharacterController {
       ray,
       rayLength,
       true,
-      undefined,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
       undefined,
       undefined,
       this.rigidBody
@@ -656,17 +2393,23 @@ export class CharacterController {
     return !hit;
   }
 
-  castFootRay(position) {
+  /**
+   * Ground under a foot, cast down from rise above it
+   */
+  private castFootRay(
+    position: THREE.Vector3,
+    rise: number = 0.05,
+    rayLength: number = 0.35
+  ): FootHit | null {
     if (!this.world || !this.rigidBody) return null;
 
     const RAPIER = this.rapierInstance;
     const rayOrigin = {
       x: position.x,
-      y: position.y + 0.05,
+      y: position.y + rise,
       z: position.z,
     };
     const rayDirection = { x: 0, y: -1, z: 0 };
-    const rayLength = 0.35;
 
     try {
       const ray = new RAPIER.Ray(rayOrigin, rayDirection);
@@ -674,38 +2417,30 @@ export class CharacterController {
         ray,
         rayLength,
         true,
-        undefined,
+        RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
         undefined,
         undefined,
         this.rigidBody
       );
 
-      if (hit) {
-        const hitToi = hit.toi ?? hit.timeOfImpact ?? hit.time_of_impact;
-
-        if (typeof hitToi === "number" && hitToi <= rayLength) {
-          const point = new THREE.Vector3(
-            rayOrigin.x + rayDirection.x * hitToi,
-            rayOrigin.y + rayDirection.y * hitToi,
-            rayOrigin.z + rayDirection.z * hitToi
-          );
-
-          // Get normal for slope calculation
-          const hitNormal = hit.normal ?? hit.normal1 ?? hit.normal2 ?? null;
-          let normal = new THREE.Vector3(0, 1, 0);
-          if (hitNormal) {
-            normal.set(hitNormal.x, hitNormal.y, hitNormal.z);
-          }
+      if (hit && hit.timeOfImpact <= rayLength) {
+        const hitToi = hit.timeOfImpact;
+        const point = new THREE.Vector3(
+          rayOrigin.x + rayDirection.x * hitToi,
+          rayOrigin.y + rayDirection.y * hitToi,
+          rayOrigin.z + rayDirection.z * hitToi
+        );
 
-          const slopeFactor = 1 - Math.max(0, Math.min(1, normal.y));
+        // Get normal for slope calculation
+        const normal = new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z);
+        const slopeFactor = 1 - Math.max(0, Math.min(1, normal.y));
 
-          return {
-            hitToi,
-            slopeFactor,
-            point,
-            normal,
-          };
-        }
+        return {
+          hitToi,
+          slopeFactor,
+          point,
+          normal,
+        };
       }
 
       return null;
@@ -715,7 +2450,7 @@ export class CharacterController {
     }
   }
 
-  playFootstepSound(volumeMultiplier = 1.0) {
+  private playFootstepSound(volumeMultiplier: number = 1.0): void {
     if (
       !this.config.enableFootstepAudio ||
       this.footstepSoundPaths.length === 0
@@ -723,10 +2458,8 @@ export class CharacterController {
       return;
     }
 
-    let chosenIndex;
-    if (this.footstepSoundPaths.length === 1) {
-      chosenIndex = 0;
-    } else {
+    let chosenIndex = 0;
+    if (this.footstepSoundPaths.length > 1) {
       let attempts = 0;
       do {
         chosenIndex = Math.floor(
@@ -742,19 +2475,23 @@ export class CharacterController {
     audio.play().catch(() => {});
   }
 
-  updateFootsteps(delta) {
-    // Only check footsteps during movement animations
+  private updateFootsteps(delta: number): void {
+    // Only check footsteps during grounded movement animations
+    const isStepping = this.activeBlendSpace
+      ? this.horizontalSpeed > 0.3
+      : this.currentAnimation !== null &&
+        this.footstepAnimations.has(this.currentAnimation);
     if (
-      !this.footstepAnimations.has(this.currentAnimation) ||
+      !this.motor ||
+      !isStepping ||
       !this.isGrounded ||
-      this.jumpPhase !== "none" ||
-      this.isRolling
+      !this.stateMachine.is("Grounded")
     ) {
       return;
     }
 
     // Get current speed to adjust footstep rate
-    const vel = this.rigidBody.linvel();
+    const vel = this.motor.getVelocity();
     const horizontalSpeed = Math.sqrt(vel.x * vel.x + vel.z * vel.z);
     const isRunning = horizontalSpeed > this.config.WALK_SPEED * 1.5;
 
@@ -769,7 +2506,7 @@ export class CharacterController {
     const finalCooldown = Math.max(adjustedCooldown, minCooldown);
 
     // Process left foot using hitToi distance detection (works for all animations including crouch)
-    let leftHit = null;
+    let leftHit: FootHit | null = null;
     if (this.leftFootBone) {
       this.leftFootBone.getWorldPosition(this.leftFootWorldPosition);
 
@@ -823,13 +2560,11 @@ export class CharacterController {
 
         this.prevLeftFootPosition.copy(this.leftFootWorldPosition);
         this.leftFootWasGrounded = groundedFoot;
-        this.leftFootPrevToi =
-          groundedFoot && typeof hitToi === "number" ? hitToi : 1;
       }
     }
 
     // Process right foot
-    let rightHit = null;
+    let rightHit: FootHit | null = null;
     if (this.rightFootBone) {
       this.rightFootBone.getWorldPosition(this.rightFootWorldPosition);
 
@@ -882,8 +2617,6 @@ export class CharacterController {
 
         this.prevRightFootPosition.copy(this.rightFootWorldPosition);
         this.rightFootWasGrounded = groundedFoot;
-        this.rightFootPrevToi =
-          groundedFoot && typeof hitToi === "number" ? hitToi : 1;
       }
     }
 
@@ -892,20 +2625,17 @@ export class CharacterController {
     if (leftHit || rightHit) {
       const volumeMultiplier = isRunning
         ? 1.2
-        : this.currentAnimation === "crouchWalk"
+        : this.activeBlendSpace === this.crouchBlend
         ? 0.7
         : 1.0;
       this.playFootstepSound(volumeMultiplier);
 
       // Spawn footstep particles
-      if (this.config.enableFootstepParticles && this.footstepParticles) {
-        const hitsToProcess = [];
-        if (leftHit) hitsToProcess.push(leftHit);
-        if (rightHit) hitsToProcess.push(rightHit);
-
-        hitsToProcess.forEach((hit) => {
+      const particles = this.footstepParticles;
+      if (this.config.enableFootstepParticles && particles) {
+        [leftHit, rightHit].forEach((hit) => {
           if (hit) {
-            this.footstepParticles.spawn({
+            particles.spawn({
               position: hit.point,
               normal: hit.normal,
               slopeFactor: hit.slopeFactor,
@@ -916,432 +2646,856 @@ export class CharacterController {
     }
   }
 
-  normalizeAngle(angle) {
-    while (angle > Math.PI) angle -= 2 * Math.PI;
-    while (angle < -Math.PI) angle += 2 * Math.PI;
-    return angle;
+  /**
+   * Fall damage for a vertical speed at touchdown, rising linearly from
+   * fallDamageMinSpeed to fallDamageMax at fallDamageMaxSpeed
+   */
+  private getFallDamage(speed: number): number {
+    const { fallDamageMinSpeed, fallDamageMaxSpeed, fallDamageMax } = this.config;
+    if (speed <= fallDamageMinSpeed) return 0;
+
+    const range = Math.max(fallDamageMaxSpeed - fallDamageMinSpeed, 0.001);
+    return Math.round(fallDamageMax * Math.min((speed - fallDamageMinSpeed) / range, 1));
   }
 
-  lerpAngle(start, end, t) {
-    start = this.normalizeAngle(start);
-    end = this.normalizeAngle(end);
+  /**
+   * Land state entry: impact report, fall damage, braking, sound, dust and
+   * camera response (both scaled up for heavy landings)
+   */
+  private handleLanding(): void {
+    const impact = this.impactSpeed;
+    const hard = impact >= this.config.hardLandingSpeed;
+    this.landingAnimation = hard ? "hardLand" : "jumpLand";
+    this.setAnimation(this.landingAnimation, true);
+    this.landingRollTimer = 0;
+
+    this.lastLandingImpact = this.pendingLandingForce;
+
+    // Death is picked up by the Land state's update
+    const damage = this.getFallDamage(impact);
+    if (damage > 0) {
+      this.hurt({ amount: damage, type: "fall" });
+    }
 
-    if (Math.abs(end - start) > Math.PI) {
-      if (end > start) {
-        start += 2 * Math.PI;
-      } else {
-        end += 2 * Math.PI;
-      }
+    // 0 for a normal landing, up to 1 at fallDamageMaxSpeed
+    const { hardLandingSpeed, fallDamageMaxSpeed } = this.config;
+    const strength = hard
+      ? THREE.MathUtils.clamp(
+          (impact - hardLandingSpeed) / Math.max(fallDamageMaxSpeed - hardLandingSpeed, 0.001),
+          0,
+          1
+        )
+      : 0;
+    if (hard) {
+      this.cameraKick = 0.15 + 0.35 * strength;
+      this.cameraShake = 0.05 + 0.1 * strength;
     }
 
-    return this.normalizeAngle(start + (end - start) * t);
+    this.velocity.x *= 0.2;
+    this.velocity.z *= 0.2;
+
+    if (this.footstepCooldown <= 0.05) {
+      this.playFootstepSound();
+      this.footstepCooldown = 0.25;
+    }
+
+    // Spawn landing particles
+    const particles = this.footstepParticles;
+    if (!this.config.enableFootstepParticles || !particles) return;
+
+    const landingHits: FootHit[] = [];
+
+    // Try to get foot positions first
+    if (this.leftFootBone) {
+      this.leftFootBone.getWorldPosition(this.leftFootWorldPosition);
+      const hit = this.castFootRay(this.leftFootWorldPosition);
+      if (hit) landingHits.push(hit);
+    }
+    if (this.rightFootBone) {
+      this.rightFootBone.getWorldPosition(this.rightFootWorldPosition);
+      const hit = this.castFootRay(this.rightFootWorldPosition);
+      if (hit) landingHits.push(hit);
+    }
+
+    // Try center position
+    if (landingHits.length === 0) {
+      const centerPos = new THREE.Vector3();
+      this.character.getWorldPosition(centerPos);
+      const hit = this.castFootRay(centerPos);
+      if (hit) landingHits.push(hit);
+    }
+
+    // Fallback: spawn at bottom of capsule even if raycast fails
+    if (landingHits.length === 0 && this.rigidBody) {
+      const position = this.rigidBody.translation();
+      // Position at bottom of capsule (where feet touch ground)
+      const bottomPos = new THREE.Vector3(
+        position.x,
+        position.y - this.currentCapsuleHalfHeight - this.config.capsuleRadius,
+        position.z
+      );
+      landingHits.push({
+        point: bottomPos,
+        normal: new THREE.Vector3(0, 1, 0),
+        slopeFactor: 0,
+        hitToi: 0,
+      });
+    }
+
+    // Spawn particles for all landing hits, more and bigger for heavy landings
+    const puffs = hard ? 3 + Math.round(strength * 5) : 1;
+    landingHits.forEach((hit) => {
+      for (let i = 0; i < puffs; i++) {
+        particles.spawn({
+          position: hit.point,
+          normal: hit.normal,
+          slopeFactor: hit.slopeFactor,
+          strength: hard ? 1.5 + strength : 1,
+        });
+      }
+    });
   }
 
-  update(delta, interpolationAlpha = 0) {
-    if (!this.rigidBody) return;
+  /**
+   * Crouch intent from the key and the ceiling: stay crouched under low
+   * ceilings, and for a short delay after the ceiling clears
+   */
+  private updateCrouchIntent(delta: number): boolean {
+    const isCrouching = this.stateMachine.is("Crouch");
+    this.hasCeilingClearance = isCrouching ? this.checkCeilingClearance() : true;
 
-    // Force reset animationGroup position and rotation every frame to prevent jitter/sliding
-    // This matches the approach in wawa-game-template for smooth animations
-    // Do this BEFORE mixer update to ensure clean state
-    if (this.animationGroup) {
-      this.animationGroup.position.set(0, this.currentCharacterYOffset, 0);
-      this.animationGroup.rotation.set(0, 0, 0);
+    if (this.keys.crouch) {
+      this.ceilingClearanceTimer = -1;
+      return true;
     }
 
-    // Update animation mixer
-    if (this.mixer) {
-      this.mixer.update(delta);
+    if (!isCrouching) {
+      this.ceilingClearanceTimer = -1;
+      return false;
     }
 
-    // Animation change cooldown
-    this.animationChangeCooldown = Math.max(
-      this.animationChangeCooldown - delta,
-      0
-    );
+    if (!this.hasCeilingClearance) {
+      this.ceilingClearanceTimer = 0;
+      return true;
+    }
 
-    // Footstep cooldown
-    this.footstepCooldown = Math.max(this.footstepCooldown - delta, 0);
+    if (this.ceilingClearanceTimer >= 0) {
+      this.ceilingClearanceTimer += delta;
+      return this.ceilingClearanceTimer < STAND_UP_DELAY;
+    }
 
-    // Update footstep particles
-    if (this.footstepParticles) {
-      this.footstepParticles.update(delta);
+    return false;
+  }
+
+  /**
+   * Read movement keys into movement / intendedVelocity and turn the character
+   */
+  private readMovementInput(): void {
+    const movement = this.movement;
+    movement.x = 0;
+    movement.z = 0;
+
+    if (this.keys.forward) movement.z = 1;
+    if (this.keys.backward) movement.z = -1;
+    if (this.keys.left) movement.x = 1;
+    if (this.keys.right) movement.x = -1;
+
+    // On a wall A/D move sideways instead of turning
+    if (movement.x !== 0 && !this.isOnWall()) {
+      this.rotationTarget += this.config.ROTATION_SPEED * movement.x;
     }
 
-    const vel = this.rigidBody.linvel();
-    if (!vel) return;
+    // Speed
+    let speed = this.isSprinting() ? this.config.RUN_SPEED : this.config.WALK_SPEED;
+    if (this.shouldBeCrouched) {
+      speed = this.config.WALK_SPEED * 0.5;
+    }
 
-    // Update foot positions and detect footsteps
-    this.updateFootsteps(delta);
+    this.intendedVelocity.x = 0;
+    this.intendedVelocity.z = 0;
+    if (!this.isMoving()) return;
 
-    // Ground detection
-    let grounded = this.checkGroundedRapier();
+    const baseMovementAngle = movement.walkBackwardMode
+      ? Math.atan2(movement.x, 1)
+      : Math.atan2(movement.x, movement.z);
 
-    if (this.crouchTransitioning) {
-      grounded = true;
+    const movementRotation = this.rotationTarget + baseMovementAngle;
+
+    this.intendedVelocity.x = Math.sin(movementRotation) * speed;
+    this.intendedVelocity.z = Math.cos(movementRotation) * speed;
+
+    this.characterRotationTarget = baseMovementAngle;
+
+    if (movement.walkBackwardMode && movement.z < 0) {
+      this.intendedVelocity.x = -this.intendedVelocity.x;
+      this.intendedVelocity.z = -this.intendedVelocity.z;
     }
+  }
 
-    this.isGrounded = grounded;
+  private isMoving(): boolean {
+    return this.movement.x !== 0 || this.movement.z !== 0;
+  }
 
-    // Crouch logic
-    const hasCeilingClearance = this.isCrouching
-      ? this.checkCeilingClearance()
-      : true;
+  /**
+   * True if the animation's clip fired the event (marker name, "finished"
+   * or "loop") during this frame's mixer update
+   */
+  private hasClipEvent(animName: AnimationName, event: string): boolean {
+    return this.clipEvents.has(`${this.getClipName(animName)}:${event}`);
+  }
 
-    if (this.keys.crouch) {
-      this.ceilingClearanceTimer = -1;
-    } else if (!hasCeilingClearance && this.isCrouching) {
-      this.ceilingClearanceTimer = 0;
-    } else if (
-      hasCeilingClearance &&
-      this.isCrouching &&
-      this.ceilingClearanceTimer >= 0
-    ) {
-      this.ceilingClearanceTimer += delta;
-    } else if (!this.isCrouching) {
-      this.ceilingClearanceTimer = -1;
+  /**
+   * Clip played for an animation, the root motion variant if enabled
+   */
+  private getClipName(animName: AnimationName): string {
+    const rootMotionClip = this.rootMotionAnimations.has(animName)
+      ? ROOT_MOTION_CLIPS[animName]
+      : undefined;
+    return rootMotionClip ?? this.animationMap[animName];
+  }
+
+  /**
+   * Move with the current clip's root motion if it's enabled for the
+   * animation. Returns false when the state should drive velocity itself.
+   */
+  private applyRootMotion(): boolean {
+    if (!this.isRootMotionActive()) return false;
+
+    this.velocity.x = this.rootMotionVelocity.x;
+    this.velocity.z = this.rootMotionVelocity.z;
+    return true;
+  }
+
+  private isRootMotionActive(): boolean {
+    return (
+      this.rootMotion !== null &&
+      this.currentAnimation !== null &&
+      this.rootMotionAnimations.has(this.currentAnimation)
+    );
+  }
+
+  /**
+   * Opt an animation in or out of root motion. When off, the clip plays in
+   * place and the state moves the body (e.g. the constant roll speed).
+   */
+  setRootMotionEnabled(animName: RootMotionAnimation, enabled: boolean): void {
+    if (enabled) {
+      this.rootMotionAnimations.add(animName);
+    } else {
+      this.rootMotionAnimations.delete(animName);
     }
+  }
 
-    const standUpDelay = 0.5;
-    let shouldBeCrouched;
+  isRootMotionEnabled(animName: RootMotionAnimation): boolean {
+    return this.rootMotionAnimations.has(animName);
+  }
 
-    if (this.keys.crouch) {
-      shouldBeCrouched = true;
-      this.ceilingClearanceTimer = -1;
-    } else if (!hasCeilingClearance) {
-      shouldBeCrouched = true;
-    } else if (
-      this.ceilingClearanceTimer >= 0 &&
-      this.ceilingClearanceTimer < standUpDelay
-    ) {
-      shouldBeCrouched = true;
+  /**
+   * A one-shot is done once its clip finished, or if it never started
+   * (model not loaded yet, clip missing)
+   */
+  private isOneShotDone(animName: AnimationName): boolean {
+    return (
+      this.currentAnimation !== animName || this.hasClipEvent(animName, "finished")
+    );
+  }
+
+  /**
+   * Clip events (finished / loop / markers) for the character's mixer,
+   * null until the model has loaded
+   */
+  getAnimationEvents(): AnimationEvents | null {
+    return this.animationEvents;
+  }
+
+  /**
+   * Grounded leaf state for the current input
+   */
+  private getLocomotionState(): CharacterState {
+    if (this.shouldBeCrouched) return "Crouch";
+    if (!this.isMoving()) return "Idle";
+    return this.isSprinting() ? "Run" : "Walk";
+  }
+
+  private applyGroundMovement(): void {
+    if (this.isMoving()) {
+      this.velocity.x = this.intendedVelocity.x;
+      this.velocity.z = this.intendedVelocity.z;
+      this.applySlope();
     } else {
-      shouldBeCrouched = false;
+      this.dampVelocity();
     }
+  }
+
+  /**
+   * Walk along the ground's surface instead of into or off it, slower the
+   * steeper the way up
+   */
+  private applySlope(): void {
+    const normal = this.groundNormal;
+    const speed = Math.hypot(this.velocity.x, this.velocity.z);
+    const slope = Math.hypot(normal.x, normal.z);
+    if (!this.isGrounded || slope < 1e-3 || speed < 1e-3) return;
+
+    // 1 straight uphill, 0 across, negative downhill
+    const uphill = -(this.velocity.x * normal.x + this.velocity.z * normal.z) / (speed * slope);
+    const steepness = Math.min(this.groundAngle / this.config.maxWalkableAngle, 1);
+    const factor = THREE.MathUtils.lerp(
+      1,
+      this.config.uphillSpeedFactor,
+      Math.max(uphill, 0) * steepness
+    );
+
+    const along = new THREE.Vector3(
+      this.velocity.x,
+      -(this.velocity.x * normal.x + this.velocity.z * normal.z) / normal.y,
+      this.velocity.z
+    ).setLength(speed * factor);
+    this.velocity = { x: along.x, y: along.y, z: along.z };
+  }
+
+  private dampVelocity(): void {
+    this.velocity.x *= 0.85;
+    this.velocity.z *= 0.85;
+
+    if (Math.abs(this.velocity.x) < 0.01) this.velocity.x = 0;
+    if (Math.abs(this.velocity.z) < 0.01) this.velocity.z = 0;
+  }
+
+  /**
+   * True once per press, and only when called (i.e. when a jump is
+   * possible). Presses stay buffered for jumpBufferTime.
+   */
+  private consumeJump(): boolean {
+    if (this.jumpBufferTimer <= 0) return false;
+    this.jumpBufferTimer = 0;
+    return true;
+  }
+
+  /**
+   * Letting go of Space on the way up shortens the jump
+   */
+  private applyJumpCut(): void {
+    if (!this.jumpCutPending) return;
+    if (this.velocity.y <= 0) {
+      this.jumpCutPending = false;
+    } else if (!this.keys.jump) {
+      this.velocity.y *= this.config.jumpCutMultiplier;
+      this.jumpCutPending = false;
+    }
+  }
+
+  /**
+   * Anything solid within distance below the capsule
+   */
+  private hasGroundWithin(distance: number): boolean {
+    if (!this.rigidBody) return false;
+
+    const RAPIER = this.rapierInstance;
+    const position = this.rigidBody.translation();
+    const ray = new RAPIER.Ray(
+      {
+        x: position.x,
+        y: position.y - this.currentCapsuleHalfHeight - this.config.capsuleRadius,
+        z: position.z,
+      },
+      { x: 0, y: -1, z: 0 }
+    );
+    const hit = this.world.castRay(
+      ray,
+      distance,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      this.rigidBody
+    );
+    return hit !== null;
+  }
 
-    // Landing detection
-    if (!this.wasGrounded && grounded) {
-      this.jumpPhase = "land";
-      this.setAnimation("jumpLand");
+  /**
+   * Like consumeJump; presses while exhausted are swallowed
+   */
+  private consumeRoll(): boolean {
+    if (!this.keys.roll || this.rollPressed) return false;
+    this.rollPressed = true;
+    return this.stamina.canUse("roll");
+  }
 
-      vel.x *= 0.2;
-      vel.z *= 0.2;
+  /**
+   * Shift held, moving and not exhausted
+   */
+  private isSprinting(): boolean {
+    return this.keys.run && this.isMoving() && this.stamina.canUse("sprint");
+  }
 
-      if (this.footstepCooldown <= 0.05) {
-        this.playFootstepSound();
-        this.footstepCooldown = 0.25;
+  /**
+   * Cap the fall (or rise in an updraft), ease toward cruising speed and
+   * turn the momentum toward the heading, which A/D steer as on foot
+   */
+  private applyGlideMovement(delta: number): void {
+    const { glideFallSpeed, glideSpeed, glideTurnRate } = this.config;
+
+    this.updrafts.forEach((updraft) => {
+      if (!updraft.affects(this)) return;
+      const maxSpeed = updraft.getMaxSpeed();
+      if (this.velocity.y < maxSpeed) {
+        this.velocity.y = Math.min(this.velocity.y + updraft.getStrength() * delta, maxSpeed);
       }
+    });
+    this.velocity.y = Math.max(this.velocity.y, -glideFallSpeed);
 
-      // Spawn landing particles
-      if (this.config.enableFootstepParticles && this.footstepParticles) {
-        const landingHits = [];
+    const speed = Math.hypot(this.velocity.x, this.velocity.z);
+    const targetSpeed = this.movement.z > 0 ? glideSpeed : glideSpeed * 0.5;
+    const newSpeed = THREE.MathUtils.damp(speed, targetSpeed, GLIDE_ACCELERATION, delta);
 
-        // Try to get foot positions first
-        if (this.leftFootBone) {
-          this.leftFootBone.getWorldPosition(this.leftFootWorldPosition);
-          const hit = this.castFootRay(this.leftFootWorldPosition);
-          if (hit) landingHits.push(hit);
-        }
-        if (this.rightFootBone) {
-          this.rightFootBone.getWorldPosition(this.rightFootWorldPosition);
-          const hit = this.castFootRay(this.rightFootWorldPosition);
-          if (hit) landingHits.push(hit);
-        }
+    const heading = this.rotationTarget;
+    const current = speed > 0.1 ? Math.atan2(this.velocity.x, this.velocity.z) : heading;
+    const direction = this.lerpAngle(current, heading, 1 - Math.exp(-glideTurnRate * delta));
 
-        // Try center position
-        if (landingHits.length === 0 && this.character) {
-          const centerPos = new THREE.Vector3();
-          this.character.getWorldPosition(centerPos);
-          const hit = this.castFootRay(centerPos);
-          if (hit) landingHits.push(hit);
-        }
+    this.velocity.x = Math.sin(direction) * newSpeed;
+    this.velocity.z = Math.cos(direction) * newSpeed;
+    this.characterRotationTarget = direction - this.rotationTarget;
+  }
 
-        // Fallback: spawn at bottom of capsule even if raycast fails
-        if (landingHits.length === 0 && this.rigidBody) {
-          const position = this.rigidBody.translation();
-          const currentHalfHeight = this.currentCapsuleHalfHeight;
-          // Position at bottom of capsule (where feet touch ground)
-          const bottomPos = new THREE.Vector3(
-            position.x,
-            position.y - currentHalfHeight - this.config.capsuleRadius,
-            position.z
-          );
-          // Create a fallback hit even if raycast doesn't work
-          landingHits.push({
-            point: bottomPos,
-            normal: new THREE.Vector3(0, 1, 0),
-            slopeFactor: 0,
-            hitToi: 0,
-          });
-        }
+  /**
+   * Ease the camera offset between the regular and the gliding one
+   */
+  private updateCameraOffset(delta: number): void {
+    const step = delta / GLIDE_CAMERA_BLEND_TIME;
+    this.glideCameraWeight = THREE.MathUtils.clamp(
+      this.glideCameraWeight + (this.stateMachine.is("Glide") ? step : -step),
+      0,
+      1
+    );
 
-        // Spawn particles for all landing hits
-        landingHits.forEach((hit) => {
-          if (hit) {
-            this.footstepParticles.spawn({
-              position: hit.point,
-              normal: hit.normal,
-              slopeFactor: hit.slopeFactor,
-            });
-          }
-        });
+    const { cameraX, cameraY, cameraZ, glideCameraY, glideCameraZ } = this.config;
+    const weight = this.glideCameraWeight;
+    this.cameraPosition.position.set(
+      cameraX,
+      THREE.MathUtils.lerp(cameraY, glideCameraY, weight),
+      THREE.MathUtils.lerp(cameraZ, glideCameraZ, weight)
+    );
+  }
+
+  /**
+   * Sprinting past a near-vertical wall alongside (not head-on) in the air
+   * runs along it. A wall just run on needs a landing before the next run.
+   */
+  private tryStartWallRun(): boolean {
+    if (
+      this.wallRunCooldown > 0 ||
+      !this.isSprinting() ||
+      this.velocity.y < -WALL_RUN_MAX_FALL_SPEED
+    ) {
+      return false;
+    }
+
+    const direction = new THREE.Vector3(this.intendedVelocity.x, 0, this.intendedVelocity.z);
+    if (direction.lengthSq() < 1e-6) return false;
+    direction.normalize();
+    const left = new THREE.Vector3(0, 1, 0).cross(direction);
+    const maxAlong = Math.sin(THREE.MathUtils.degToRad(this.config.wallRunMaxAngle));
+
+    for (const side of [1, -1]) {
+      const hit = this.probeWall(left.clone().multiplyScalar(side));
+      if (
+        !hit ||
+        hit.steepness < this.config.wallRunMinAngle ||
+        Math.abs(direction.dot(hit.normal)) > maxAlong ||
+        this.isLastWallRun(hit)
+      ) {
+        continue;
       }
+      this.wallRunHit = hit;
+      return true;
+    }
+    return false;
+  }
 
-      setTimeout(() => {
-        if (this.jumpPhase === "land") {
-          this.jumpPhase = "none";
-        }
-      }, 300);
+  private isLastWallRun(hit: WallHit): boolean {
+    const last = this.lastWallRun;
+    return (
+      last !== null &&
+      last.collider === hit.collider &&
+      last.normal.dot(hit.normal) > SAME_WALL_DOT
+    );
+  }
+
+  /**
+   * Lean away from the wall while running along it
+   */
+  private updateWallRunLean(delta: number): void {
+    let target = 0;
+    if (this.stateMachine.is("WallRun") && this.wallRunHit) {
+      // Wall on the left (normal pointing right) tips the head to the right
+      const facing = this.character.rotation.y + this.container.rotation.y;
+      const left = new THREE.Vector3(Math.cos(facing), 0, -Math.sin(facing));
+      target = this.wallRunHit.normal.dot(left) < 0 ? WALL_RUN_LEAN : -WALL_RUN_LEAN;
     }
+    this.wallRunLean = THREE.MathUtils.damp(this.wallRunLean, target, 12, delta);
+    this.animationGroup.rotation.z = this.wallRunLean;
+  }
+
+  /**
+   * Climbing, hanging or pulling up: gravity is off and A/D move sideways
+   */
+  private isOnWall(): boolean {
+    return (
+      this.stateMachine.is("Climb") ||
+      this.stateMachine.is("ClimbOver") ||
+      this.stateMachine.is("Hang")
+    );
+  }
+
+  /**
+   * Wall within climbReach along direction, with its normal taken at
+   * rayHeight above the capsule center
+   */
+  private probeWall(direction: THREE.Vector3, rayHeight: number = 0): WallHit | null {
+    if (!this.rigidBody) return null;
+    return this.wallSensor.probe(
+      this.rigidBody,
+      this.currentCapsuleHalfHeight,
+      this.config.capsuleRadius,
+      direction,
+      { maxDistance: this.config.climbReach, rayHeight }
+    );
+  }
+
+  /**
+   * Top of the capsule, above its center
+   */
+  private getHeadHeight(): number {
+    return this.currentCapsuleHalfHeight + this.config.capsuleRadius;
+  }
 
-    // Roll input - check after landing but before movement animations
+  /**
+   * Walking (or jumping) forward into a steep enough surface grabs it
+   */
+  private tryStartClimb(): boolean {
     if (
-      this.keys.roll &&
-      !this.rollPressed &&
-      grounded &&
-      !shouldBeCrouched &&
-      !this.keys.dance &&
-      !this.isAttacking &&
-      !this.isRolling
+      this.climbCooldown > 0 ||
+      this.movement.z <= 0 ||
+      this.shouldBeCrouched ||
+      !this.stamina.canUse("climb")
     ) {
-      this.rollPressed = true;
-      this.isRolling = true;
-      this.jumpPhase = "none";
-      this.setAnimation("roll");
-
-      // Update capsule to rolling height (lower, more like a sphere)
-      const rollHalfHeight = this.config.capsuleRadius; // Same as radius for rolling
-      this.updateCapsuleCollider(rollHalfHeight);
-
-      const rollSpeed = this.config.RUN_SPEED * 1.2;
-      const facingRotation = this.rotationTarget + this.characterRotationTarget;
-
-      // Store roll direction and speed for maintaining velocity during roll
-      this.rollDirection = facingRotation;
-      this.rollSpeed = rollSpeed;
-
-      vel.x = Math.sin(facingRotation) * rollSpeed;
-      vel.z = Math.cos(facingRotation) * rollSpeed;
-
-      setTimeout(() => {
-        this.isRolling = false;
-        this.rollDirection = undefined;
-        this.rollSpeed = undefined;
-        // Restore capsule to standing height when roll ends
-        const standingHalfHeight = this.config.capsuleHeight / 2;
-        this.updateCapsuleCollider(standingHalfHeight);
-      }, 800);
-    } else if (!this.keys.roll) {
-      this.rollPressed = false;
-    }
-
-    // Falling detection
+      return false;
+    }
+
+    const direction = new THREE.Vector3(this.intendedVelocity.x, 0, this.intendedVelocity.z);
+    if (direction.lengthSq() < 1e-6) return false;
+    direction.normalize();
+
+    const hit = this.probeWall(direction);
+    // Heading into the wall, not brushing along it
     if (
-      !grounded &&
-      this.jumpPhase === "none" &&
-      !shouldBeCrouched &&
-      !this.crouchTransitioning &&
-      !this.isRolling
+      !hit ||
+      hit.steepness < this.config.climbMinAngle ||
+      hit.normal.dot(direction) > -0.7
     ) {
-      this.jumpPhase = "loop";
-      this.setAnimation("jumpLoop");
+      return false;
     }
 
-    this.wasGrounded = grounded;
+    this.climbHit = hit;
+    return true;
+  }
+
+  /**
+   * Where the capsule ends up on top of the wall, stored in climbOverTarget.
+   * False without a walkable ledge in reach or room to stand on it.
+   */
+  private findClimbOverTarget(hit: WallHit): boolean {
+    if (!this.rigidBody) return false;
+
+    const halfHeight = this.currentCapsuleHalfHeight;
+    const radius = this.config.capsuleRadius;
+    const ledge = this.wallSensor.findLedge(
+      this.rigidBody,
+      hit.point,
+      hit.normal,
+      this.getHeadHeight() + CLIMB_OVER_REACH,
+      radius + 0.2
+    );
+    if (!ledge) return false;
+
+    const target = ledge.point.clone();
+    target.y += halfHeight + radius + 0.05;
+    if (!this.wallSensor.hasRoom(this.rigidBody, target, halfHeight, radius)) return false;
+
+    this.climbOverTarget.copy(target);
+    return true;
+  }
 
-    const movement = { x: 0, z: 0, walkBackwardMode: false };
+  /**
+   * Falling facing a wall whose top is between the chest and just above
+   * the head grabs the edge
+   */
+  private tryGrabLedge(): boolean {
+    if (this.climbCooldown > 0 || this.shouldBeCrouched) return false;
 
-    // Dance
-    if (this.keys.dance) {
-      this.setAnimation("dance");
-      movement.x = 0;
-      movement.z = 0;
+    const facing = this.rotationTarget + this.characterRotationTarget;
+    const direction = new THREE.Vector3(Math.sin(facing), 0, Math.cos(facing));
+    const hit = this.probeWall(direction, LEDGE_PROBE_HEIGHT);
+    if (
+      !hit ||
+      hit.steepness < this.config.climbMinAngle ||
+      hit.normal.dot(direction) > -0.7
+    ) {
+      return false;
     }
+    // Still wall above the head: nothing to grab yet
+    if (this.probeWall(direction, this.getHeadHeight() + LEDGE_REACH)) return false;
+    if (!this.findHangPosition(hit)) return false;
 
-    // Update capsule on crouch state change
-    if (shouldBeCrouched !== this.isCrouching) {
-      const standingHalfHeight = this.config.capsuleHeight / 2;
-      const crouchHalfHeight = (this.config.capsuleHeight * 0.5) / 2;
+    this.climbHit = hit;
+    return true;
+  }
 
-      this.crouchTransitioning = true;
-      this.jumpPhase = "none";
+  /**
+   * Top of the wall above a point on its face (probed at LEDGE_PROBE_HEIGHT)
+   */
+  private findLedgeAbove(wallPoint: THREE.Vector3, normal: THREE.Vector3): LedgeHit | null {
+    if (!this.rigidBody) return null;
+    return this.wallSensor.findLedge(
+      this.rigidBody,
+      wallPoint,
+      normal,
+      this.getHeadHeight() + LEDGE_REACH - LEDGE_PROBE_HEIGHT,
+      LEDGE_INSET
+    );
+  }
 
-      setTimeout(() => {
-        this.crouchTransitioning = false;
-      }, 200);
+  /**
+   * Capsule center for hanging from the ledge above hit: hands on the
+   * edge, just off the wall. Null without a ledge or if the capsule
+   * wouldn't fit there.
+   */
+  private findHangPosition(hit: WallHit): THREE.Vector3 | null {
+    if (!this.rigidBody) return null;
+    const ledge = this.findLedgeAbove(hit.point, hit.normal);
+    if (!ledge) return null;
+
+    const away = hit.normal.clone().setY(0).normalize();
+    const target = hit.point
+      .clone()
+      .addScaledVector(away, this.config.capsuleRadius + HANG_WALL_GAP);
+    target.y = ledge.point.y - HANG_HAND_HEIGHT;
+
+    const fits = this.wallSensor.hasRoom(
+      this.rigidBody,
+      target,
+      this.currentCapsuleHalfHeight,
+      this.config.capsuleRadius
+    );
+    return fits ? target : null;
+  }
 
-      if (shouldBeCrouched) {
-        // Update capsule to crouch height
-        this.updateCapsuleCollider(crouchHalfHeight);
+  /**
+   * Drop off the wall; it can't be grabbed again straight away
+   */
+  private letGoOfWall(): CharacterState {
+    this.climbHit = null;
+    this.climbCooldown = CLIMB_REGRAB_DELAY;
+    return this.isGrounded ? "Grounded" : "Fall";
+  }
+
+  /**
+   * Pitch the model upright against the wall while climbing (and rising
+   * over the edge), easing back to the regular pose otherwise
+   */
+  private updateClimbPose(delta: number): void {
+    const climbing =
+      this.stateMachine.is("Climb") ||
+      this.stateMachine.is("Hang") ||
+      (this.stateMachine.is("ClimbOver") && this.climbOverRising);
+    const step = delta / CLIMB_POSE_BLEND_TIME;
+    this.climbPoseWeight = THREE.MathUtils.clamp(
+      this.climbPoseWeight + (climbing ? step : -step),
+      0,
+      1
+    );
+    if (this.climbPoseWeight === 0) return;
+
+    const weight = this.climbPoseWeight;
+    this.animationGroup.rotation.x = (CLIMB_POSE_PITCH + this.climbTilt) * weight;
+    this.animationGroup.position.addScaledVector(CLIMB_POSE_OFFSET, weight);
+  }
+
+  private normalizeAngle(angle: number): number {
+    while (angle > Math.PI) angle -= 2 * Math.PI;
+    while (angle < -Math.PI) angle += 2 * Math.PI;
+    return angle;
+  }
+
+  private lerpAngle(start: number, end: number, t: number): number {
+    start = this.normalizeAngle(start);
+    end = this.normalizeAngle(end);
+
+    if (Math.abs(end - start) > Math.PI) {
+      if (end > start) {
+        start += 2 * Math.PI;
       } else {
-        // Update capsule to standing height
-        this.updateCapsuleCollider(standingHalfHeight);
-        this.setAnimation("idle");
+        end += 2 * Math.PI;
       }
-
-      this.isCrouching = shouldBeCrouched;
     }
 
-    // Movement input
-    if (this.keys.forward) movement.z = 1;
-    if (this.keys.backward) movement.z = -1;
-    if (this.keys.left) movement.x = 1;
-    if (this.keys.right) movement.x = -1;
+    return this.normalizeAngle(start + (end - start) * t);
+  }
 
-    if (movement.x !== 0) {
-      this.rotationTarget += this.config.ROTATION_SPEED * movement.x;
+  update(delta: number, interpolationAlpha: number = 0): void {
+    if (!this.rigidBody || !this.motor) return;
+
+    // Force reset animationGroup position and rotation every frame to prevent jitter/sliding
+    // This matches the approach in wawa-game-template for smooth animations
+    // Do this BEFORE mixer update to ensure clean state
+    this.animationGroup.position.set(0, this.currentCharacterYOffset, 0);
+    this.animationGroup.rotation.set(0, 0, 0);
+    this.updateClimbPose(delta);
+    this.updateWallRunLean(delta);
+
+    // Update animation mixer
+    this.clipEvents.clear();
+    if (this.mixer) {
+      this.animationLayers?.update(delta);
+      this.mixer.update(delta);
+      this.animationEvents?.update();
     }
 
-    // Speed
-    let speed = this.keys.run ? this.config.RUN_SPEED : this.config.WALK_SPEED;
-    if (shouldBeCrouched) {
-      speed = this.config.WALK_SPEED * 0.5;
+    // Root motion as a velocity over this frame (applied by Roll / Attack)
+    this.rootMotionVelocity.set(0, 0, 0);
+    if (this.rootMotion) {
+      const displacement = this.rootMotion.update(
+        this.isRootMotionActive() ? this.currentAction : null
+      );
+      if (delta > 0) {
+        this.rootMotionVelocity.copy(displacement).divideScalar(delta);
+      }
     }
 
-    if (movement.x !== 0 || movement.z !== 0) {
-      const baseMovementAngle = movement.walkBackwardMode
-        ? Math.atan2(movement.x, 1)
-        : Math.atan2(movement.x, movement.z);
+    // Animation change cooldown
+    this.animationChangeCooldown = Math.max(
+      this.animationChangeCooldown - delta,
+      0
+    );
 
-      const movementRotation = this.rotationTarget + baseMovementAngle;
+    // Footstep cooldown
+    this.footstepCooldown = Math.max(this.footstepCooldown - delta, 0);
+    this.crouchTransitionTime = Math.max(this.crouchTransitionTime - delta, 0);
+    this.landingRollTimer = Math.max(this.landingRollTimer - delta, 0);
+    this.climbCooldown = Math.max(this.climbCooldown - delta, 0);
+    this.wallRunCooldown = Math.max(this.wallRunCooldown - delta, 0);
 
-      let intendedVelX = Math.sin(movementRotation) * speed;
-      let intendedVelZ = Math.cos(movementRotation) * speed;
+    // Update footstep particles
+    if (this.footstepParticles) {
+      this.footstepParticles.update(delta);
+    }
 
-      if (movement.walkBackwardMode) {
-        this.characterRotationTarget = Math.atan2(movement.x, 1);
-      } else {
-        this.characterRotationTarget = Math.atan2(movement.x, movement.z);
-      }
+    this.health.update(delta);
+    this.stamina.update(delta);
+    this.checkKillPlane();
 
-      if (movement.walkBackwardMode && movement.z < 0) {
-        intendedVelX = -intendedVelX;
-        intendedVelZ = -intendedVelZ;
-      }
+    this.velocity = this.motor.getVelocity();
 
-      if (grounded && this.jumpPhase !== "land" && !this.isRolling) {
-        vel.x = intendedVelX;
-        vel.z = intendedVelZ;
-      }
+    // Update foot positions and detect footsteps
+    this.updateFootsteps(delta);
+
+    // Ground detection
+    // The kinematic backend also reports ground contact from its own sweep
+    let grounded = this.checkGroundedRapier() || this.motor.isGrounded();
 
-      // Jump
-      if (this.keys.jump && grounded && !this.jumpPressed) {
-        this.jumpPressed = true;
-        vel.y = this.config.JUMP_FORCE;
-        vel.x = intendedVelX;
-        vel.z = intendedVelZ;
+    if (this.crouchTransitionTime > 0) {
+      grounded = true;
+    }
 
-        this.jumpPhase = "start";
-        this.setAnimation("jumpStart");
+    this.isGrounded = grounded;
+    // Any wall can be run on again after a landing
+    if (grounded) this.lastWallRun = null;
+
+    // Vertical speed at touchdown; the contact may already have stopped the body
+    if (!grounded) {
+      this.fallSpeed = Math.max(-this.velocity.y, 0);
+    } else if (!this.wasGrounded) {
+      this.impactSpeed = Math.max(this.fallSpeed, -this.velocity.y, 0);
+    }
 
-        setTimeout(() => {
-          if (this.jumpPhase === "start") {
-            this.jumpPhase = "loop";
-            this.setAnimation("jumpLoop");
-          }
-        }, 200);
-      } else if (!this.keys.jump) {
-        this.jumpPressed = false;
-      }
+    // Standing on a moving platform: work in the platform's frame so the
+    // states (which overwrite velocity) don't cancel its motion.
+    // The platform velocity is added back right before setVelocity.
+    this.groundPlatform = grounded ? this.getGroundPlatform() : null;
+    let platformVelocity: THREE.Vector3 | null = null;
+    if (this.groundPlatform) {
+      platformVelocity = this.groundPlatform.getVelocityAt(
+        this.rigidBody.translation()
+      );
+      this.velocity.x -= platformVelocity.x;
+      this.velocity.y -= platformVelocity.y;
+      this.velocity.z -= platformVelocity.z;
 
-      // Movement animations - only if not jumping and not in any jump phase and not rolling
-      const isInJumpPhase = this.jumpPhase !== "none";
-      if (
-        grounded &&
-        !isInJumpPhase &&
-        !this.keys.dance &&
-        !this.isAttacking &&
-        !this.isRolling
-      ) {
-        if (shouldBeCrouched) {
-          this.setAnimation("crouchWalk");
-        } else if (this.combatMode) {
-          this.setAnimation("swordIdle");
-        } else if (speed === this.config.RUN_SPEED) {
-          this.setAnimation("run");
-        } else if (movement.walkBackwardMode) {
-          this.setAnimation("walkBackwards");
-        } else {
-          this.setAnimation("walk");
-        }
-      }
+      // Turn with the platform (characterRotationTarget is relative to this)
+      this.rotationTarget += this.groundPlatform.getAngularVelocityY() * delta;
+    }
+
+    // Actual speed drives the locomotion blends, not the input
+    this.horizontalSpeed = Math.hypot(this.velocity.x, this.velocity.z);
+
+    this.shouldBeCrouched = this.updateCrouchIntent(delta);
+    this.readMovementInput();
+
+    // Presses are consumed by the states; releasing re-arms them
+    if (!this.keys.roll) this.rollPressed = false;
+
+    // Walking off an edge (not jumping) starts the coyote window
+    if (grounded && this.stateMachine.is("Grounded")) {
+      this.coyoteTimer = this.config.coyoteTime;
     } else {
-      // No movement
-      if (grounded && !this.isRolling) {
-        vel.x *= 0.85;
-        vel.z *= 0.85;
+      this.coyoteTimer = Math.max(this.coyoteTimer - delta, 0);
+    }
 
-        if (Math.abs(vel.x) < 0.01) vel.x = 0;
-        if (Math.abs(vel.z) < 0.01) vel.z = 0;
-      }
+    this.stateMachine.update(delta);
 
-      // Jump standing still
-      if (this.keys.jump && grounded && !this.jumpPressed) {
-        this.jumpPressed = true;
-        vel.y = this.config.JUMP_FORCE;
+    // After the states, so every press is seen at least once
+    this.jumpBufferTimer = Math.max(this.jumpBufferTimer - delta, 0);
 
-        this.jumpPhase = "start";
-        this.setAnimation("jumpStart");
+    // Weights take effect on the next mixer update
+    this.standingBlend?.update(delta, this.horizontalSpeed);
+    this.tiredBlend?.update(delta, this.horizontalSpeed);
+    this.crouchBlend?.update(delta, this.horizontalSpeed);
+    this.updateUpperBody();
 
-        setTimeout(() => {
-          if (this.jumpPhase === "start") {
-            this.jumpPhase = "loop";
-            this.setAnimation("jumpLoop");
-          }
-        }, 200);
-      } else if (!this.keys.jump) {
-        this.jumpPressed = false;
-      }
+    // Clicks mid-air don't queue an attack for the landing
+    if (!this.stateMachine.is("Grounded") && !this.stateMachine.is("Attack")) {
+      this.combo.clearInput();
+    }
+    this.combo.update(delta);
+    this.updateSheathe();
 
-      // Idle animations - only if not jumping and not in any jump phase
-      const isInJumpPhaseIdle = this.jumpPhase !== "none";
-      if (
-        grounded &&
-        !isInJumpPhaseIdle &&
-        !this.keys.dance &&
-        !this.isAttacking &&
-        !this.isRolling
-      ) {
-        if (shouldBeCrouched) {
-          this.setAnimation("crouchIdle");
-        } else if (this.combatMode) {
-          this.setAnimation("swordIdle");
-        } else {
-          this.setAnimation("idle");
-        }
-      }
+    this.wasGrounded = grounded;
+    if (grounded && !this.stateMachine.is("Land")) {
+      this.pendingLandingForce = 0;
     }
 
     // Character rotation
-    if (this.character) {
-      let targetRotation = this.characterRotationTarget;
-      if (this.cameraMode === "follow-orbit") {
-        targetRotation = this.characterRotationTarget - this.mouseOrbitOffset;
-      }
-
-      this.character.rotation.y = this.lerpAngle(
-        this.character.rotation.y,
-        targetRotation,
-        0.1
-      );
+    let targetRotation = this.characterRotationTarget;
+    if (this.cameraMode === "follow-orbit") {
+      targetRotation = this.characterRotationTarget - this.mouseOrbitOffset;
     }
 
-    // Maintain roll velocity during roll (prevent slowdown from damping)
-    // This ensures roll maintains speed like jump does - constant velocity throughout
-    // Do this RIGHT BEFORE setting velocity to override any damping or movement input
-    if (
-      this.isRolling &&
-      grounded &&
-      this.rollDirection !== undefined &&
-      this.rollSpeed !== undefined
-    ) {
-      // Maintain constant roll speed throughout the roll
-      // This prevents the "no movement" damping from slowing down the roll
-      vel.x = Math.sin(this.rollDirection) * this.rollSpeed;
-      vel.z = Math.cos(this.rollDirection) * this.rollSpeed;
+    this.character.rotation.y = this.lerpAngle(
+      this.character.rotation.y,
+      targetRotation,
+      0.1
+    );
+
+    // Back to world space on a moving platform
+    if (platformVelocity) {
+      this.velocity.x += platformVelocity.x;
+      this.velocity.y += platformVelocity.y;
+      this.velocity.z += platformVelocity.z;
     }
 
     // Update velocity
-    this.rigidBody.setLinvel(vel, true);
+    this.motor.setVelocity(this.velocity);
 
     // Update position with interpolation for smooth rendering
     const position = this.rigidBody.translation();
@@ -1371,7 +3525,24 @@ export class CharacterController {
     // This becomes the "before physics step" position for the next frame
     this.prevPosition.copy(this.currentPosition);
 
+    // After the pose and position are final for this frame
+    this.footIK?.update(
+      delta,
+      this.config.enableFootIK ? this.getFootIKWeight() : 0,
+      (footPosition) => this.castFootRay(footPosition, FOOT_IK_RAY_RISE, FOOT_IK_RAY_LENGTH)
+    );
+    this.updateSwordHitbox();
+    this.glider.update(delta);
+
+    // Blink while invulnerable (not while lying dead), in sim time so it
+    // holds still while paused
+    this.animationGroup.visible =
+      !this.health.isInvulnerable() ||
+      this.health.isDead() ||
+      Math.floor(this.health.getInvulnerableTime() * INVULNERABLE_BLINK_RATE) % 2 === 0;
+
     // Camera update
+    this.updateCameraOffset(delta);
     if (this.cameraMode === "follow" || this.cameraMode === "follow-orbit") {
       const baseRotation = this.rotationTarget;
       const finalRotation =
@@ -1398,6 +3569,17 @@ export class CharacterController {
         );
       }
 
+      // Landing response: the lerp above eases back from the dip. Held
+      // while the sim is paused.
+      if (delta > 0 && (this.cameraKick > 0 || this.cameraShake > 0)) {
+        this.camera.position.y -= this.cameraKick;
+        this.cameraKick = 0;
+        this.camera.position.x += (Math.random() - 0.5) * this.cameraShake;
+        this.camera.position.y += (Math.random() - 0.5) * this.cameraShake;
+        this.cameraShake *= Math.exp(-CAMERA_SHAKE_DECAY * delta);
+        if (this.cameraShake < 0.002) this.cameraShake = 0;
+      }
+
       this.cameraTarget.getWorldPosition(this.cameraLookAtWorldPosition);
 
       if (isFirstFrame) {
@@ -1423,7 +3605,7 @@ export class CharacterController {
     }
   }
 
-  dispose() {
+  dispose(): void {
     window.removeEventListener("keydown", this.handleKeyDown);
     window.removeEventListener("keyup", this.handleKeyUp);
     window.removeEventListener("mousedown", this.handleMouseDown);
@@ -1442,9 +3624,26 @@ export class CharacterController {
     if (this.mixer) {
       this.mixer.stopAllAction();
     }
+    this.animationEvents?.dispose();
+    this.animationLayers?.dispose();
+    this.swordHitbox?.dispose();
+    this.swordHitbox = null;
+    if (this.combat) {
+      this.combat.removeHurtbox(this.hurtbox);
+    }
+    this.hurtbox.dispose();
+    this.health.dispose();
+    this.stamina.dispose();
+    this.glider.dispose();
+
+    if (this.physicsEvents) {
+      this.physicsEvents.removeOwner(this);
+    }
 
-    if (this.rigidBody && this.world) {
-      this.world.removeRigidBody(this.rigidBody);
+    if (this.motor) {
+      this.motor.dispose();
+      this.motor = null;
+      this.rigidBody = null;
     }
 
     // Dispose footstep particles
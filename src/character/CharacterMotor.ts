@@ -0,0 +1,36 @@
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export type MovementBackend = "dynamic" | "kinematic";
+
+export type MotorVector = { x: number; y: number; z: number };
+
+/**
+ * Moves the character capsule for CharacterController
+ * Both backends take a desired velocity each frame and own the rigid body,
+ * so the controller's movement code doesn't care which one is active.
+ */
+export interface CharacterMotor {
+  readonly backend: MovementBackend;
+
+  /** Create the rigid body at a world position (center of the capsule) */
+  createBody(position: [number, number, number]): InstanceType<RAPIER["RigidBody"]>;
+
+  /** Called whenever the capsule collider is (re)built, e.g. when crouching */
+  setCollider(collider: InstanceType<RAPIER["Collider"]>): void;
+
+  getVelocity(): MotorVector;
+
+  /** Velocity the character should move with until the next call */
+  setVelocity(velocity: MotorVector): void;
+
+  /** Advance one physics step (before world.step); a no-op for the dynamic backend */
+  step(dt: number): void;
+
+  /** Ground contact reported by the backend itself (false if it has none) */
+  isGrounded(): boolean;
+
+  /** Switch gravity off, e.g. while climbing (on for new bodies) */
+  setGravityEnabled(enabled: boolean): void;
+
+  dispose(): void;
+}
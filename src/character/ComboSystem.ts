@@ -0,0 +1,154 @@
+export type ComboInput = "light" | "heavy";
+
+export interface ComboMovement {
+  /** Forward speed (m/s) */
+  speed: number;
+  /** Normalized clip time range the movement applies over */
+  from: number;
+  to: number;
+}
+
+export interface ComboStep<TAnimation extends string> {
+  animation: TAnimation;
+  /** Clip playback speed */
+  speed?: number;
+  /**
+   * Normalized clip time range in which an attack input chains into the
+   * next step. Steps without one end the chain.
+   */
+  window?: [number, number];
+  /** Normalized clip time after which moving cancels the attack */
+  cancelFrom: number;
+  damage: number;
+  /** Body movement when the clip has no root motion, e.g. a lunge */
+  movement?: ComboMovement;
+  /** Last hit of a chain */
+  finisher?: boolean;
+  /** Step chained into for each input */
+  next?: Partial<Record<ComboInput, string>>;
+}
+
+export interface ComboDefinition<TAnimation extends string> {
+  /** First step for each input */
+  start: Partial<Record<ComboInput, string>>;
+  steps: Record<string, ComboStep<TAnimation>>;
+}
+
+/**
+ * Attack chains defined as data: steps link to the next step per input,
+ * and an input pressed before a step's window opens is buffered until it
+ * does. Outside of a chain, inputs are dropped after bufferTime.
+ */
+export class ComboSystem<TAnimation extends string> {
+  private definition: ComboDefinition<TAnimation>;
+  private bufferTime: number;
+  private bufferedInput: ComboInput | null = null;
+  private bufferAge: number = 0;
+  private currentStep: string | null = null;
+  private chainLength: number = 0;
+
+  constructor(definition: ComboDefinition<TAnimation>, bufferTime: number = 0.3) {
+    this.definition = definition;
+    this.bufferTime = bufferTime;
+  }
+
+  /**
+   * Buffer an attack input (replaces an older one)
+   */
+  press(input: ComboInput): void {
+    this.bufferedInput = input;
+    this.bufferAge = 0;
+  }
+
+  hasInput(): boolean {
+    return this.bufferedInput !== null;
+  }
+
+  /**
+   * Take the buffered input without starting a chain
+   */
+  consumeInput(): ComboInput | null {
+    const input = this.bufferedInput;
+    this.bufferedInput = null;
+    return input;
+  }
+
+  clearInput(): void {
+    this.bufferedInput = null;
+  }
+
+  /**
+   * Age the buffered input; it's held for as long as a step is playing
+   */
+  update(delta: number): void {
+    if (this.bufferedInput === null || this.currentStep !== null) return;
+
+    this.bufferAge += delta;
+    if (this.bufferAge > this.bufferTime) {
+      this.bufferedInput = null;
+    }
+  }
+
+  /**
+   * Start a chain from the buffered input. Returns its first step, or null
+   */
+  start(): ComboStep<TAnimation> | null {
+    const input = this.consumeInput();
+    const name = input ? this.definition.start[input] : undefined;
+    this.chainLength = 0;
+    return this.enterStep(name);
+  }
+
+  /**
+   * Chain into the next step if an input is buffered and the current step's
+   * window is open at this normalized clip time. Returns the new step, or null
+   */
+  advance(normalizedTime: number): ComboStep<TAnimation> | null {
+    const step = this.getStep();
+    if (!step?.window || this.bufferedInput === null) return null;
+
+    const [open, close] = step.window;
+    if (normalizedTime < open || normalizedTime > close) return null;
+
+    const name = step.next?.[this.bufferedInput];
+    this.bufferedInput = null;
+    return this.enterStep(name);
+  }
+
+  /**
+   * End the chain; a buffered input stays for the next one
+   */
+  reset(): void {
+    this.currentStep = null;
+    this.chainLength = 0;
+    this.bufferAge = 0;
+  }
+
+  getStep(): ComboStep<TAnimation> | null {
+    return this.currentStep ? this.definition.steps[this.currentStep] : null;
+  }
+
+  getStepName(): string | null {
+    return this.currentStep;
+  }
+
+  /**
+   * Steps played in the current chain, including the current one
+   */
+  getChainLength(): number {
+    return this.chainLength;
+  }
+
+  private enterStep(name: string | undefined): ComboStep<TAnimation> | null {
+    if (!name) return null;
+
+    if (!this.definition.steps[name]) {
+      console.warn(`Combo step ${name} not found`);
+      return null;
+    }
+
+    this.currentStep = name;
+    this.chainLength++;
+    return this.definition.steps[name];
+  }
+}
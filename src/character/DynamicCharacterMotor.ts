@@ -0,0 +1,61 @@
+import type { CharacterMotor, MotorVector } from "./CharacterMotor";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+/**
+ * Original movement: a dynamic capsule with locked rotations whose linear
+ * velocity is overwritten every frame. Gravity and collisions come from Rapier.
+ */
+export class DynamicCharacterMotor implements CharacterMotor {
+  readonly backend = "dynamic" as const;
+  private RAPIER: RAPIER;
+  private world: InstanceType<RAPIER["World"]>;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+
+  constructor(RAPIER: RAPIER, world: InstanceType<RAPIER["World"]>) {
+    this.RAPIER = RAPIER;
+    this.world = world;
+  }
+
+  createBody(position: [number, number, number]): InstanceType<RAPIER["RigidBody"]> {
+    const rigidBodyDesc = this.RAPIER.RigidBodyDesc.dynamic()
+      .setTranslation(position[0], position[1], position[2])
+      .setCanSleep(false)
+      .setCcdEnabled(true);
+
+    this.rigidBody = this.world.createRigidBody(rigidBodyDesc);
+    this.rigidBody.lockRotations(true, true);
+    return this.rigidBody;
+  }
+
+  setCollider(): void {
+    // Rapier moves every collider attached to the body
+  }
+
+  getVelocity(): MotorVector {
+    if (!this.rigidBody) return { x: 0, y: 0, z: 0 };
+    const { x, y, z } = this.rigidBody.linvel();
+    return { x, y, z };
+  }
+
+  setVelocity(velocity: MotorVector): void {
+    this.rigidBody?.setLinvel(velocity, true);
+  }
+
+  step(): void {}
+
+  isGrounded(): boolean {
+    return false;
+  }
+
+  setGravityEnabled(enabled: boolean): void {
+    this.rigidBody?.setGravityScale(enabled ? 1 : 0, true);
+  }
+
+  dispose(): void {
+    if (this.rigidBody) {
+      this.world.removeRigidBody(this.rigidBody);
+      this.rigidBody = null;
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import * as THREE from "three";
+
+export interface FootIKParams {
+  /** Furthest (m) the pelvis drops so a foot can reach lower ground */
+  maxPelvisDrop?: number;
+  /** Furthest (m) a foot is raised onto higher ground */
+  maxFootRaise?: number;
+  /** Seconds to fade the IK fully in or out */
+  blendTime?: number;
+  /** How quickly (1/s) the feet and pelvis follow changes in the ground */
+  followRate?: number;
+}
+
+export interface FootGroundHit {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+/**
+ * Finds the ground under a foot (world space), or null if there's none in reach
+ */
+export type FootGroundProbe = (footPosition: THREE.Vector3) => FootGroundHit | null;
+
+interface Leg {
+  thigh: THREE.Object3D;
+  shin: THREE.Object3D;
+  foot: THREE.Object3D;
+  // Ground height under the foot relative to the model's origin, smoothed
+  offset: number;
+  normal: THREE.Vector3;
+  // Animated pose of the foot before the IK, world space
+  animatedPosition: THREE.Vector3;
+  animatedRotation: THREE.Quaternion;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+// Keeps the knee from locking straight or folding flat
+const REACH_MARGIN = 0.001;
+
+/**
+ * Two-bone leg IK that plants the feet on uneven ground. Each foot keeps its
+ * animated height above the ground found under it, and is tilted to the
+ * surface. The pelvis drops when one foot stands lower than the model's
+ * origin so that leg can reach. Thigh and shin are the foot bone's parent and
+ * grandparent, and the pelvis is the thigh's parent.
+ *
+ * Call update() after the mixer, once the model's position for the frame is
+ * final; the mixer overwrites the adjusted bones on its next update.
+ */
+export class FootIK {
+  private params: Required<FootIKParams>;
+  private model: THREE.Object3D;
+  private pelvis: THREE.Object3D;
+  private legs: Leg[];
+  private weight: number = 0;
+  private modelPosition = new THREE.Vector3();
+  private modelSide = new THREE.Vector3();
+  private thighPosition = new THREE.Vector3();
+  private shinPosition = new THREE.Vector3();
+  private footPosition = new THREE.Vector3();
+  private target = new THREE.Vector3();
+  private toHip = new THREE.Vector3();
+  private toFoot = new THREE.Vector3();
+  private toTarget = new THREE.Vector3();
+  private axis = new THREE.Vector3();
+  private rotation = new THREE.Quaternion();
+  private worldRotation = new THREE.Quaternion();
+  private tilt = new THREE.Quaternion();
+  private parentRotation = new THREE.Quaternion();
+
+  /**
+   * Whether both feet have the shin, thigh and pelvis above them the IK needs
+   */
+  static canSolve(leftFoot: THREE.Object3D, rightFoot: THREE.Object3D): boolean {
+    return [leftFoot, rightFoot].every((foot) => !!foot.parent?.parent?.parent);
+  }
+
+  /**
+   * @param model Root of the skinned model; its origin is where the feet stand on flat ground
+   * @param leftFoot Foot bones; check them with canSolve() first
+   */
+  constructor(
+    model: THREE.Object3D,
+    leftFoot: THREE.Object3D,
+    rightFoot: THREE.Object3D,
+    params: FootIKParams = {}
+  ) {
+    const {
+      maxPelvisDrop = 0.35,
+      maxFootRaise = 0.4,
+      blendTime = 0.2,
+      followRate = 15,
+    } = params;
+    this.params = { maxPelvisDrop, maxFootRaise, blendTime, followRate };
+
+    this.model = model;
+    this.legs = [leftFoot, rightFoot].map((foot) => {
+      const shin = foot.parent!;
+      const thigh = shin.parent!;
+      return {
+        thigh,
+        shin,
+        foot,
+        offset: 0,
+        normal: UP.clone(),
+        animatedPosition: new THREE.Vector3(),
+        animatedRotation: new THREE.Quaternion(),
+      };
+    });
+    this.pelvis = this.legs[0].thigh.parent!;
+  }
+
+  /**
+   * Fade toward targetWeight (0 animation only, 1 fully planted) and adjust
+   * the pose for this frame
+   */
+  update(delta: number, targetWeight: number, probe: FootGroundProbe): void {
+    const step = delta / this.params.blendTime;
+    this.weight = THREE.MathUtils.clamp(
+      this.weight + THREE.MathUtils.clamp(targetWeight - this.weight, -step, step),
+      0,
+      1
+    );
+    if (this.weight <= 0) {
+      this.legs.forEach((leg) => {
+        leg.offset = 0;
+        leg.normal.copy(UP);
+      });
+      return;
+    }
+
+    this.model.updateWorldMatrix(true, true);
+    this.model.getWorldPosition(this.modelPosition);
+    this.modelSide.setFromMatrixColumn(this.model.matrixWorld, 0).normalize();
+
+    const follow = 1 - Math.exp(-this.params.followRate * delta);
+    this.legs.forEach((leg) => {
+      leg.foot.getWorldPosition(leg.animatedPosition);
+      leg.foot.getWorldQuaternion(leg.animatedRotation);
+
+      const hit = probe(leg.animatedPosition);
+      const offset = hit
+        ? THREE.MathUtils.clamp(
+            hit.point.y - this.modelPosition.y,
+            -this.params.maxPelvisDrop,
+            this.params.maxFootRaise
+          )
+        : 0;
+      leg.offset = THREE.MathUtils.lerp(leg.offset, offset, follow);
+      leg.normal.lerp(hit?.normal ?? UP, follow).normalize();
+    });
+
+    // The lower foot sets the pelvis height; the other leg bends to its ground
+    const pelvisDrop = Math.min(this.legs[0].offset, this.legs[1].offset, 0) * this.weight;
+    if (pelvisDrop < 0) {
+      this.movePelvis(pelvisDrop);
+    }
+
+    this.legs.forEach((leg) => {
+      this.target.copy(leg.animatedPosition);
+      this.target.y += leg.offset * this.weight;
+      this.solveLeg(leg, this.target);
+
+      // Back to the animated orientation (the leg turned it), then onto the slope
+      this.tilt.setFromUnitVectors(UP, leg.normal);
+      this.tilt.slerp(this.rotation.identity(), 1 - this.weight);
+      this.setWorldRotation(leg.foot, this.tilt.multiply(leg.animatedRotation));
+    });
+  }
+
+  /**
+   * Lower the pelvis by drop (m, negative) in world space
+   */
+  private movePelvis(drop: number): void {
+    const parent = this.pelvis.parent;
+    if (!parent) return;
+    this.pelvis.getWorldPosition(this.target);
+    this.target.y += drop;
+    this.pelvis.position.copy(parent.worldToLocal(this.target));
+    this.pelvis.updateMatrixWorld(true);
+  }
+
+  /**
+   * Bend the knee so the foot is as far from the hip as target, then swing
+   * the thigh so the foot lands on it
+   */
+  private solveLeg(leg: Leg, target: THREE.Vector3): void {
+    leg.thigh.getWorldPosition(this.thighPosition);
+    leg.shin.getWorldPosition(this.shinPosition);
+    leg.foot.getWorldPosition(this.footPosition);
+
+    const upper = this.thighPosition.distanceTo(this.shinPosition);
+    const lower = this.shinPosition.distanceTo(this.footPosition);
+    const reach = THREE.MathUtils.clamp(
+      this.thighPosition.distanceTo(target),
+      Math.abs(upper - lower) + REACH_MARGIN,
+      upper + lower - REACH_MARGIN
+    );
+
+    // Knee: current and wanted angle between the thigh and the shin
+    const toHip = this.toHip.subVectors(this.thighPosition, this.shinPosition);
+    const toFoot = this.toFoot.subVectors(this.footPosition, this.shinPosition);
+    const current = toHip.angleTo(toFoot);
+    const wanted = Math.acos(
+      THREE.MathUtils.clamp(
+        (upper * upper + lower * lower - reach * reach) / (2 * upper * lower),
+        -1,
+        1
+      )
+    );
+    // A straight leg has no bend plane; bend the knee forward around the model's X axis
+    const axis = this.axis.crossVectors(toFoot, toHip);
+    if (axis.lengthSq() < 1e-8) {
+      axis.copy(this.modelSide);
+    }
+    axis.normalize();
+    this.rotation.setFromAxisAngle(axis, current - wanted);
+    this.rotateWorld(leg.shin, this.rotation);
+
+    // Hip: aim the thigh so the foot points at target
+    leg.foot.getWorldPosition(this.footPosition);
+    const toCurrent = this.footPosition.sub(this.thighPosition).normalize();
+    const toTarget = this.toTarget.subVectors(target, this.thighPosition).normalize();
+    this.rotation.setFromUnitVectors(toCurrent, toTarget);
+    this.rotateWorld(leg.thigh, this.rotation);
+  }
+
+  /**
+   * Apply a world-space rotation on top of the bone's current one
+   */
+  private rotateWorld(bone: THREE.Object3D, rotation: THREE.Quaternion): void {
+    bone.getWorldQuaternion(this.worldRotation);
+    this.setWorldRotation(bone, this.worldRotation.premultiply(rotation));
+  }
+
+  private setWorldRotation(bone: THREE.Object3D, world: THREE.Quaternion): void {
+    bone.parent?.getWorldQuaternion(this.parentRotation);
+    bone.quaternion.copy(this.parentRotation.invert().multiply(world));
+    bone.updateMatrixWorld(true);
+  }
+
+  /**
+   * Current blend, 0 animation only to 1 fully planted
+   */
+  getWeight(): number {
+    return this.weight;
+  }
+
+  getParams(): Required<FootIKParams> {
+    return { ...this.params };
+  }
+}
@@ -0,0 +1,147 @@
+import * as THREE from "three";
+
+export interface GliderParams {
+  /** Wingtip to wingtip (m) */
+  span?: number;
+  /** Nose to trailing edge (m) */
+  chord?: number;
+  /** Height of the canopy above the bar (m) */
+  height?: number;
+  color?: THREE.ColorRepresentation;
+}
+
+// Seconds to unfold or fold the canopy
+const DEPLOY_TIME = 0.25;
+
+/**
+ * Paraglider held over the head: a wing on struts above a bar gripped by
+ * both hands. Add getMesh() to the group the character turns with, then
+ * attach() the hand bones; the bar follows the midpoint between them.
+ */
+export class Glider {
+  private params: Required<GliderParams>;
+  private group: THREE.Group;
+  private geometries: THREE.BufferGeometry[] = [];
+  private canopyMaterial: THREE.MeshStandardMaterial;
+  private frameMaterial: THREE.MeshStandardMaterial;
+  private leftHand: THREE.Object3D | null = null;
+  private rightHand: THREE.Object3D | null = null;
+  private deployed: boolean = false;
+  // 0 folded away, 1 fully open
+  private openAmount: number = 0;
+  private leftHandPosition = new THREE.Vector3();
+  private rightHandPosition = new THREE.Vector3();
+
+  constructor(params: GliderParams = {}) {
+    const { span = 2.4, chord = 1, height = 0.5, color = 0xd94f2b } = params;
+    this.params = { span, chord, height, color };
+
+    this.group = new THREE.Group();
+    this.group.name = "Glider";
+    this.group.visible = false;
+
+    this.canopyMaterial = new THREE.MeshStandardMaterial({
+      color,
+      roughness: 0.8,
+      side: THREE.DoubleSide,
+    });
+    this.frameMaterial = new THREE.MeshStandardMaterial({ color: 0x3b2a1a, roughness: 0.7 });
+
+    // Swept wing in the XZ plane, nose toward +Z (the character's forward)
+    const shape = new THREE.Shape();
+    shape.moveTo(0, chord * 0.6);
+    shape.lineTo(span / 2, -chord * 0.3);
+    shape.lineTo(span / 2 - 0.2, -chord * 0.4);
+    shape.lineTo(0, -chord * 0.2);
+    shape.lineTo(-span / 2 + 0.2, -chord * 0.4);
+    shape.lineTo(-span / 2, -chord * 0.3);
+    shape.closePath();
+    const canopyGeometry = new THREE.ShapeGeometry(shape);
+    // Lay it flat: shape Y becomes +Z
+    canopyGeometry.rotateX(Math.PI / 2);
+
+    const barGeometry = new THREE.CylinderGeometry(0.015, 0.015, 0.6, 6);
+    barGeometry.rotateZ(Math.PI / 2);
+    const strutGeometry = new THREE.CylinderGeometry(0.01, 0.01, 1, 4);
+    this.geometries.push(canopyGeometry, barGeometry, strutGeometry);
+
+    const canopy = new THREE.Mesh(canopyGeometry, this.canopyMaterial);
+    canopy.position.y = height;
+    canopy.castShadow = true;
+    const bar = new THREE.Mesh(barGeometry, this.frameMaterial);
+    this.group.add(canopy, bar);
+
+    // Struts from the bar ends up to the wing
+    [-1, 1].forEach((side) => {
+      const bottom = new THREE.Vector3(side * 0.3, 0, 0);
+      const top = new THREE.Vector3(side * span * 0.3, height, 0);
+      const strut = new THREE.Mesh(strutGeometry, this.frameMaterial);
+      strut.position.copy(bottom).lerp(top, 0.5);
+      strut.scale.y = bottom.distanceTo(top);
+      strut.quaternion.setFromUnitVectors(
+        new THREE.Vector3(0, 1, 0),
+        top.clone().sub(bottom).normalize()
+      );
+      this.group.add(strut);
+    });
+  }
+
+  /**
+   * Hold the bar between these bones
+   */
+  attach(leftHand: THREE.Object3D, rightHand: THREE.Object3D): void {
+    this.leftHand = leftHand;
+    this.rightHand = rightHand;
+  }
+
+  /**
+   * Unfold (true) or fold away (false) over DEPLOY_TIME
+   */
+  setDeployed(deployed: boolean): void {
+    this.deployed = deployed;
+  }
+
+  isDeployed(): boolean {
+    return this.deployed;
+  }
+
+  /**
+   * Animate the canopy and move the bar to the hands. Call once the
+   * character's pose and position are final for the frame.
+   */
+  update(delta: number): void {
+    const step = delta / DEPLOY_TIME;
+    this.openAmount = THREE.MathUtils.clamp(
+      this.openAmount + (this.deployed ? step : -step),
+      0,
+      1
+    );
+    this.group.visible = this.openAmount > 0;
+    if (!this.group.visible) return;
+
+    // Unfolds sideways from the bar
+    this.group.scale.set(Math.max(this.openAmount, 0.05), this.openAmount, 1);
+
+    const parent = this.group.parent;
+    if (!parent || !this.leftHand || !this.rightHand) return;
+    this.leftHand.getWorldPosition(this.leftHandPosition);
+    this.rightHand.getWorldPosition(this.rightHandPosition);
+    this.group.position.lerpVectors(this.leftHandPosition, this.rightHandPosition, 0.5);
+    parent.worldToLocal(this.group.position);
+  }
+
+  getParams(): Required<GliderParams> {
+    return { ...this.params };
+  }
+
+  getMesh(): THREE.Group {
+    return this.group;
+  }
+
+  dispose(): void {
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.canopyMaterial.dispose();
+    this.frameMaterial.dispose();
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,162 @@
+import * as THREE from "three";
+import type { CharacterMotor, MotorVector } from "./CharacterMotor";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export interface KinematicMotorSettings {
+  /** Gap kept between the capsule and the ground/walls (m) */
+  offset?: number;
+  /** Steepest slope the character can walk up (degrees) */
+  maxClimbAngle?: number;
+  /** Slopes steeper than this make the character slide down (degrees) */
+  minSlideAngle?: number;
+  /** Highest step climbed automatically (m), 0 disables autostep */
+  autostepHeight?: number;
+  /** Free space needed on top of a step (m) */
+  autostepMinWidth?: number;
+  /** Stick to the ground when walking down slopes/stairs (m), 0 disables */
+  snapToGround?: number;
+}
+
+/**
+ * Movement through Rapier's KinematicCharacterController: the capsule is a
+ * kinematic position-based body moved by collision-corrected translations,
+ * so it climbs stairs, stands still on slopes and follows the ground down.
+ * Gravity is integrated here since Rapier doesn't apply it to kinematic bodies.
+ */
+export class KinematicCharacterMotor implements CharacterMotor {
+  readonly backend = "kinematic" as const;
+  private RAPIER: RAPIER;
+  private world: InstanceType<RAPIER["World"]>;
+  private controller: InstanceType<RAPIER["KinematicCharacterController"]>;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: InstanceType<RAPIER["Collider"]> | null = null;
+  private velocity: MotorVector = { x: 0, y: 0, z: 0 };
+  private grounded: boolean = false;
+  private gravityEnabled: boolean = true;
+
+  constructor(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    settings: KinematicMotorSettings = {}
+  ) {
+    this.RAPIER = RAPIER;
+    this.world = world;
+
+    const { offset = 0.01 } = settings;
+    this.controller = world.createCharacterController(offset);
+    this.controller.setUp({ x: 0, y: 1, z: 0 });
+    this.controller.setSlideEnabled(true);
+    this.controller.setApplyImpulsesToDynamicBodies(true);
+    this.configure(settings);
+  }
+
+  /**
+   * Update slope / step / snap settings (unset values keep their defaults)
+   */
+  configure(settings: KinematicMotorSettings): void {
+    const {
+      maxClimbAngle = 45,
+      minSlideAngle = 30,
+      autostepHeight = 0.3,
+      autostepMinWidth = 0.2,
+      snapToGround = 0.3,
+    } = settings;
+
+    this.controller.setMaxSlopeClimbAngle(THREE.MathUtils.degToRad(maxClimbAngle));
+    this.controller.setMinSlopeSlideAngle(THREE.MathUtils.degToRad(minSlideAngle));
+
+    if (autostepHeight > 0) {
+      this.controller.enableAutostep(autostepHeight, autostepMinWidth, false);
+    } else {
+      this.controller.disableAutostep();
+    }
+
+    if (snapToGround > 0) {
+      this.controller.enableSnapToGround(snapToGround);
+    } else {
+      this.controller.disableSnapToGround();
+    }
+  }
+
+  createBody(position: [number, number, number]): InstanceType<RAPIER["RigidBody"]> {
+    this.rigidBody = this.world.createRigidBody(
+      this.RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+        position[0],
+        position[1],
+        position[2]
+      )
+    );
+    this.velocity = { x: 0, y: 0, z: 0 };
+    this.grounded = false;
+    this.gravityEnabled = true;
+    return this.rigidBody;
+  }
+
+  setCollider(collider: InstanceType<RAPIER["Collider"]>): void {
+    this.collider = collider;
+  }
+
+  getVelocity(): MotorVector {
+    return { ...this.velocity };
+  }
+
+  setVelocity(velocity: MotorVector): void {
+    this.velocity = { x: velocity.x, y: velocity.y, z: velocity.z };
+  }
+
+  step(dt: number): void {
+    if (!this.rigidBody || !this.collider || dt <= 0) return;
+
+    if (this.gravityEnabled) {
+      // Standing on the ground cancels accumulated fall speed
+      if (this.grounded && this.velocity.y < 0) {
+        this.velocity.y = 0;
+      }
+      this.velocity.y += this.world.gravity.y * dt;
+    }
+
+    const desired = {
+      x: this.velocity.x * dt,
+      y: this.velocity.y * dt,
+      z: this.velocity.z * dt,
+    };
+
+    this.controller.computeColliderMovement(
+      this.collider,
+      desired,
+      this.RAPIER.QueryFilterFlags.EXCLUDE_SENSORS
+    );
+    const movement = this.controller.computedMovement();
+    this.grounded = this.controller.computedGrounded();
+
+    // Bumping a ceiling stops the jump
+    if (this.velocity.y > 0 && movement.y < desired.y * 0.5) {
+      this.velocity.y = 0;
+    }
+
+    const position = this.rigidBody.translation();
+    this.rigidBody.setNextKinematicTranslation({
+      x: position.x + movement.x,
+      y: position.y + movement.y,
+      z: position.z + movement.z,
+    });
+  }
+
+  isGrounded(): boolean {
+    return this.grounded;
+  }
+
+  setGravityEnabled(enabled: boolean): void {
+    this.gravityEnabled = enabled;
+  }
+
+  dispose(): void {
+    this.world.removeCharacterController(this.controller);
+    if (this.rigidBody) {
+      this.world.removeRigidBody(this.rigidBody);
+      this.rigidBody = null;
+    }
+    this.collider = null;
+  }
+}
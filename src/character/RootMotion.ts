@@ -0,0 +1,93 @@
+import * as THREE from "three";
+
+/**
+ * Root motion from the skeleton's root bone. The horizontal part of the
+ * root's translation is sampled straight from the playing clip (so crossfades
+ * don't pull the body back), returned as a world-space displacement for the
+ * physics body, and stripped from the pose so the mesh stays on the capsule.
+ */
+export class RootMotion {
+  private rootBone: THREE.Object3D;
+  private restPosition: THREE.Vector3;
+  private interpolants = new Map<THREE.AnimationClip, THREE.Interpolant | null>();
+  private lastAction: THREE.AnimationAction | null = null;
+  private lastTime: number = 0;
+  private displacement = new THREE.Vector3();
+  private previousSample = new THREE.Vector3();
+  private currentSample = new THREE.Vector3();
+  private parentBasis = new THREE.Matrix3();
+
+  constructor(rootBone: THREE.Object3D) {
+    this.rootBone = rootBone;
+    this.restPosition = rootBone.position.clone();
+  }
+
+  /**
+   * Call after mixer.update(). Returns the world-space horizontal
+   * displacement the action's clip moved the root by since the last call
+   * (zero if action is null or its clip has no root track).
+   */
+  update(action: THREE.AnimationAction | null): THREE.Vector3 {
+    this.displacement.set(0, 0, 0);
+
+    // Keep the mesh over the capsule whatever the clips do to the root
+    this.rootBone.position.x = this.restPosition.x;
+    this.rootBone.position.z = this.restPosition.z;
+
+    if (!action) {
+      this.lastAction = null;
+      return this.displacement;
+    }
+
+    // A new or restarted action is sampled from its start
+    if (action !== this.lastAction || action.time < this.lastTime) {
+      this.lastAction = action;
+      this.lastTime = 0;
+    }
+
+    const interpolant = this.getInterpolant(action.getClip());
+    if (!interpolant) return this.displacement;
+
+    this.sample(interpolant, this.lastTime, this.previousSample);
+    this.sample(interpolant, action.time, this.currentSample);
+    this.lastTime = action.time;
+
+    // Bone-parent space to world space (character rotation and scale), ground plane only
+    const parent = this.rootBone.parent;
+    this.displacement.subVectors(this.currentSample, this.previousSample);
+    this.displacement.y = 0;
+    if (parent) {
+      this.parentBasis.setFromMatrix4(parent.matrixWorld);
+      this.displacement.applyMatrix3(this.parentBasis);
+    }
+    this.displacement.y = 0;
+
+    return this.displacement;
+  }
+
+  private sample(
+    interpolant: THREE.Interpolant,
+    time: number,
+    target: THREE.Vector3
+  ): void {
+    const values = interpolant.evaluate(time);
+    target.set(values[0], values[1], values[2]);
+  }
+
+  private getInterpolant(clip: THREE.AnimationClip): THREE.Interpolant | null {
+    if (!this.interpolants.has(clip)) {
+      const trackName = `${this.rootBone.name}.position`;
+      const track = clip.tracks.find((candidate) => candidate.name === trackName);
+      // Root tracks are exported with linear keys
+      this.interpolants.set(
+        clip,
+        track ? track.InterpolantFactoryMethodLinear() : null
+      );
+    }
+    return this.interpolants.get(clip) ?? null;
+  }
+
+  getRootBone(): THREE.Object3D {
+    return this.rootBone;
+  }
+}
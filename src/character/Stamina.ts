@@ -0,0 +1,201 @@
+/**
+ * Actions that use stamina. Sprint, climb and glide drain it per second
+ * while held; roll costs a fixed amount per use.
+ */
+export type StaminaAction = "sprint" | "roll" | "climb" | "glide";
+
+export interface StaminaParams {
+  maxStamina?: number;
+  /** Per second for held actions, per use for roll */
+  costs?: Partial<Record<StaminaAction, number>>;
+  /** Stamina per second regained once regenDelay has passed */
+  regenRate?: number;
+  /** Seconds after the last use before regen starts */
+  regenDelay?: number;
+  /** Fraction of max stamina to regain before exhaustion ends */
+  recoveryThreshold?: number;
+}
+
+/** Snapshot for HUDs and debug panels */
+export interface StaminaState {
+  current: number;
+  max: number;
+  /** current / max */
+  fraction: number;
+  /** Ran dry and hasn't recovered to recoveryThreshold yet */
+  exhausted: boolean;
+  regenerating: boolean;
+}
+
+export type StaminaListener = (state: StaminaState) => void;
+
+const DEFAULT_COSTS: Record<StaminaAction, number> = {
+  sprint: 15,
+  roll: 20,
+  climb: 10,
+  glide: 8,
+};
+
+/**
+ * Stamina pool with per-action costs, delayed regen and exhaustion: running
+ * dry blocks every action until it has recovered past recoveryThreshold
+ */
+export class Stamina {
+  private params: Required<StaminaParams> & { costs: Record<StaminaAction, number> };
+  private current: number;
+  private exhausted: boolean = false;
+  private regenTimer: number = 0;
+  private exhaustedListeners = new Set<StaminaListener>();
+  private recoveredListeners = new Set<StaminaListener>();
+
+  constructor(params: StaminaParams = {}) {
+    const {
+      maxStamina = 100,
+      costs = {},
+      regenRate = 25,
+      regenDelay = 1,
+      recoveryThreshold = 0.3,
+    } = params;
+
+    this.params = {
+      maxStamina,
+      costs: { ...DEFAULT_COSTS, ...costs },
+      regenRate,
+      regenDelay,
+      recoveryThreshold,
+    };
+    this.current = maxStamina;
+  }
+
+  /**
+   * Whether an action is allowed at all right now
+   */
+  canUse(action: StaminaAction): boolean {
+    return !this.exhausted && (this.params.costs[action] <= 0 || this.current > 0);
+  }
+
+  /**
+   * Drain a held action for one frame. Returns false once it can't continue.
+   */
+  drain(action: StaminaAction, delta: number): boolean {
+    if (!this.canUse(action)) return false;
+    this.consume(this.params.costs[action] * delta);
+    return !this.exhausted;
+  }
+
+  /**
+   * Pay for a one-off action. It goes through as long as there is any
+   * stamina left, emptying the pool if it costs more.
+   */
+  spend(action: StaminaAction): boolean {
+    if (!this.canUse(action)) return false;
+    this.consume(this.params.costs[action]);
+    return true;
+  }
+
+  private consume(amount: number): void {
+    if (amount <= 0) return;
+
+    this.current = Math.max(this.current - amount, 0);
+    this.regenTimer = this.params.regenDelay;
+    if (this.current === 0 && !this.exhausted) {
+      this.exhausted = true;
+      const state = this.getState();
+      this.exhaustedListeners.forEach((listener) => listener(state));
+    }
+  }
+
+  /**
+   * Count down the regen delay, then refill
+   */
+  update(delta: number): void {
+    if (this.regenTimer > 0) {
+      this.regenTimer = Math.max(this.regenTimer - delta, 0);
+      return;
+    }
+
+    const { maxStamina, regenRate, recoveryThreshold } = this.params;
+    this.current = Math.min(this.current + regenRate * delta, maxStamina);
+
+    if (this.exhausted && this.current >= maxStamina * recoveryThreshold) {
+      this.exhausted = false;
+      const state = this.getState();
+      this.recoveredListeners.forEach((listener) => listener(state));
+    }
+  }
+
+  /**
+   * Back to full, e.g. on respawn
+   */
+  refill(): void {
+    this.current = this.params.maxStamina;
+    this.exhausted = false;
+    this.regenTimer = 0;
+  }
+
+  /**
+   * Change costs and regen (e.g. from Tweakpane); max stamina keeps the
+   * current fraction
+   */
+  configure(params: StaminaParams): void {
+    const { costs, ...rest } = params;
+    const fraction = this.getFraction();
+    Object.assign(this.params, rest);
+    if (costs) {
+      Object.assign(this.params.costs, costs);
+    }
+    this.params.maxStamina = Math.max(this.params.maxStamina, 1);
+    this.current = this.params.maxStamina * fraction;
+  }
+
+  isExhausted(): boolean {
+    return this.exhausted;
+  }
+
+  getCurrent(): number {
+    return this.current;
+  }
+
+  getMax(): number {
+    return this.params.maxStamina;
+  }
+
+  getFraction(): number {
+    return this.current / this.params.maxStamina;
+  }
+
+  getState(): StaminaState {
+    return {
+      current: this.current,
+      max: this.params.maxStamina,
+      fraction: this.getFraction(),
+      exhausted: this.exhausted,
+      regenerating: this.regenTimer === 0 && this.current < this.params.maxStamina,
+    };
+  }
+
+  /**
+   * Listen for running dry. Returns an unsubscribe function.
+   */
+  onExhausted(listener: StaminaListener): () => void {
+    this.exhaustedListeners.add(listener);
+    return () => this.exhaustedListeners.delete(listener);
+  }
+
+  /**
+   * Listen for the end of exhaustion. Returns an unsubscribe function.
+   */
+  onRecovered(listener: StaminaListener): () => void {
+    this.recoveredListeners.add(listener);
+    return () => this.recoveredListeners.delete(listener);
+  }
+
+  getParams(): Required<StaminaParams> {
+    return { ...this.params, costs: { ...this.params.costs } };
+  }
+
+  dispose(): void {
+    this.exhaustedListeners.clear();
+    this.recoveredListeners.clear();
+  }
+}
@@ -0,0 +1,159 @@
+export interface StateDefinition<TState extends string> {
+  /** Enclosing state; it stays active (and updates first) while this one is */
+  parent?: TState;
+  /** Child entered when this state is the transition target */
+  initial?: TState | (() => TState);
+  /** Called on entry, outermost state first */
+  enter?: (from: TState | null) => void;
+  /** Called on exit, innermost state first */
+  exit?: (to: TState) => void;
+  /**
+   * Called every update while active, outermost state first, with the time
+   * spent in this state. Return a state to transition to it; returning a
+   * state that is already active lets the inner states update instead.
+   */
+  update?: (delta: number, time: number) => TState | void;
+}
+
+export type StateTransitionListener<TState extends string> = (
+  from: TState | null,
+  to: TState
+) => void;
+
+/**
+ * Hierarchical state machine: leaves are the concrete states, parents
+ * share enter/exit/update logic for their children. Timers are advanced by
+ * update(delta), so they follow pause and time scale like the rest of the sim.
+ */
+export class StateMachine<TState extends string> {
+  private states: Record<TState, StateDefinition<TState>>;
+  // Active states from the root down to the current leaf
+  private activePath: TState[] = [];
+  private times = new Map<TState, number>();
+  private listeners = new Set<StateTransitionListener<TState>>();
+
+  constructor(states: Record<TState, StateDefinition<TState>>) {
+    this.states = states;
+  }
+
+  /**
+   * Enter the initial state without running any exit hooks
+   */
+  start(state: TState): void {
+    this.activePath = [];
+    this.times.clear();
+    this.transition(state);
+  }
+
+  /**
+   * Exit up to the common ancestor, then enter down to the target's leaf
+   * Transitioning to an active state does nothing
+   */
+  transition(target: TState): void {
+    if (this.activePath.includes(target)) return;
+
+    const from = this.getState();
+    const leaf = this.resolveInitial(target);
+    const nextPath = this.getAncestors(leaf);
+
+    let shared = 0;
+    while (
+      shared < this.activePath.length &&
+      shared < nextPath.length &&
+      this.activePath[shared] === nextPath[shared]
+    ) {
+      shared++;
+    }
+
+    for (let i = this.activePath.length - 1; i >= shared; i--) {
+      const state = this.activePath[i];
+      this.states[state].exit?.(leaf);
+      this.times.delete(state);
+    }
+
+    this.activePath = nextPath;
+    for (let i = shared; i < nextPath.length; i++) {
+      const state = nextPath[i];
+      this.times.set(state, 0);
+      this.states[state].enter?.(from);
+    }
+
+    this.listeners.forEach((listener) => listener(from, leaf));
+  }
+
+  /**
+   * Advance state timers and run update hooks; at most one transition per call
+   */
+  update(delta: number): void {
+    this.activePath.forEach((state) => {
+      this.times.set(state, (this.times.get(state) ?? 0) + delta);
+    });
+
+    for (const state of [...this.activePath]) {
+      const update = this.states[state].update;
+      if (!update) continue;
+
+      const next = update(delta, this.getTime(state));
+      if (next && !this.activePath.includes(next)) {
+        this.transition(next);
+        return;
+      }
+    }
+  }
+
+  /**
+   * The current leaf state, or null before start()
+   */
+  getState(): TState | null {
+    return this.activePath[this.activePath.length - 1] ?? null;
+  }
+
+  /**
+   * True if the state is the current leaf or one of its parents
+   */
+  is(state: TState): boolean {
+    return this.activePath.includes(state);
+  }
+
+  /**
+   * Seconds spent in an active state (defaults to the current leaf)
+   */
+  getTime(state: TState | null = this.getState()): number {
+    return state ? this.times.get(state) ?? 0 : 0;
+  }
+
+  /**
+   * Active states joined from the root, e.g. "Airborne/Fall"
+   */
+  getPath(): string {
+    return this.activePath.join("/");
+  }
+
+  /**
+   * Listen for transitions. Returns an unsubscribe function.
+   */
+  onTransition(listener: StateTransitionListener<TState>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private resolveInitial(state: TState): TState {
+    let resolved = state;
+    let initial = this.states[resolved].initial;
+    while (initial) {
+      resolved = typeof initial === "function" ? initial() : initial;
+      initial = this.states[resolved].initial;
+    }
+    return resolved;
+  }
+
+  private getAncestors(state: TState): TState[] {
+    const path: TState[] = [];
+    let current: TState | undefined = state;
+    while (current) {
+      path.unshift(current);
+      current = this.states[current].parent;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,163 @@
+import * as THREE from "three";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type World = InstanceType<RAPIER["World"]>;
+type RigidBody = InstanceType<RAPIER["RigidBody"]>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+
+export interface WallHit {
+  collider: Collider;
+  /** Gap between the capsule and the wall along the probe direction */
+  distance: number;
+  /** Where the probe ray met the wall (world space) */
+  point: THREE.Vector3;
+  /** Surface normal, pointing out of the wall */
+  normal: THREE.Vector3;
+  /** Degrees between the normal and up: 90 for a vertical wall */
+  steepness: number;
+}
+
+export interface LedgeHit {
+  /** Top of the ledge, just past the wall's edge */
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+export interface WallProbeOptions {
+  /** Shape cast distance from the capsule surface */
+  maxDistance: number;
+  /** Height of the normal ray above the capsule center */
+  rayHeight?: number;
+}
+
+/**
+ * Finds walls around the character capsule for climbing and wall moves:
+ * a capsule shape cast tells whether anything is ahead, a ray at a chosen
+ * height gives the wall's point and normal there
+ */
+export class WallSensor {
+  private RAPIER: RAPIER;
+  private world: World;
+
+  constructor(RAPIER: RAPIER, world: World) {
+    this.RAPIER = RAPIER;
+    this.world = world;
+  }
+
+  /**
+   * Sweep the capsule (slightly slimmer, so the ground it stands on doesn't
+   * count) along direction. Returns null when nothing is within maxDistance
+   * or the ray at rayHeight finds no wall (e.g. a low obstacle).
+   */
+  probe(
+    body: RigidBody,
+    halfHeight: number,
+    radius: number,
+    direction: THREE.Vector3,
+    options: WallProbeOptions
+  ): WallHit | null {
+    const RAPIER = this.RAPIER;
+    const { maxDistance, rayHeight = 0 } = options;
+    const position = body.translation();
+
+    const shape = new RAPIER.Capsule(halfHeight * 0.8, radius * 0.9);
+    const cast = this.world.castShape(
+      position,
+      { x: 0, y: 0, z: 0, w: 1 },
+      { x: direction.x, y: direction.y, z: direction.z },
+      shape,
+      0,
+      maxDistance + radius * 0.1,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      body
+    );
+    if (!cast) return null;
+
+    const origin = new THREE.Vector3(position.x, position.y + rayHeight, position.z);
+    const rayLength = radius + maxDistance + 0.2;
+    const ray = new RAPIER.Ray(origin, direction);
+    const hit = this.world.castRayAndGetNormal(
+      ray,
+      rayLength,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      body
+    );
+    if (!hit) return null;
+
+    const normal = new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z).normalize();
+    return {
+      collider: hit.collider,
+      distance: Math.max(hit.timeOfImpact - radius, 0),
+      point: origin.clone().addScaledVector(direction, hit.timeOfImpact),
+      normal,
+      steepness: THREE.MathUtils.radToDeg(Math.acos(THREE.MathUtils.clamp(normal.y, -1, 1))),
+    };
+  }
+
+  /**
+   * Look down onto the top of a wall from above: a point past the edge,
+   * at most maxHeight above wallPoint, with a walkable surface
+   */
+  findLedge(
+    body: RigidBody,
+    wallPoint: THREE.Vector3,
+    wallNormal: THREE.Vector3,
+    maxHeight: number,
+    inset: number
+  ): LedgeHit | null {
+    const RAPIER = this.RAPIER;
+    const horizontal = wallNormal.clone().setY(0);
+    if (horizontal.lengthSq() < 1e-6) return null;
+    horizontal.normalize();
+
+    const origin = wallPoint
+      .clone()
+      .addScaledVector(horizontal, -inset)
+      .add(new THREE.Vector3(0, maxHeight, 0));
+    const ray = new RAPIER.Ray(origin, { x: 0, y: -1, z: 0 });
+    const hit = this.world.castRayAndGetNormal(
+      ray,
+      maxHeight,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      body
+    );
+    // Starting inside geometry (toi 0) means there's no room on top
+    if (!hit || hit.timeOfImpact <= 0 || hit.normal.y < 0.7) return null;
+
+    return {
+      point: origin.clone().setY(origin.y - hit.timeOfImpact),
+      normal: new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z),
+    };
+  }
+
+  /**
+   * Whether the capsule fits at a position (e.g. on top of a ledge)
+   */
+  hasRoom(body: RigidBody, position: THREE.Vector3, halfHeight: number, radius: number): boolean {
+    const shape = new this.RAPIER.Capsule(halfHeight, radius);
+    let blocked = false;
+    this.world.intersectionsWithShape(
+      position,
+      { x: 0, y: 0, z: 0, w: 1 },
+      shape,
+      () => {
+        blocked = true;
+        return false;
+      },
+      this.RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      body
+    );
+    return !blocked;
+  }
+}
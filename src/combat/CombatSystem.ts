@@ -0,0 +1,57 @@
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+import type { Hurtbox } from "./Hurtbox";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+
+/**
+ * Registry of hurtbox colliders for one physics world, so a hitbox sensor
+ * can tell which entity it overlaps
+ */
+export class CombatSystem {
+  private events: PhysicsEventBus;
+  private hurtboxes = new Map<number, Hurtbox>();
+
+  constructor(events: PhysicsEventBus) {
+    this.events = events;
+  }
+
+  getEvents(): PhysicsEventBus {
+    return this.events;
+  }
+
+  /**
+   * Make a collider part of a hurtbox (an entity can have several)
+   */
+  addHurtbox(hurtbox: Hurtbox, collider: Collider): void {
+    this.hurtboxes.set(collider.handle, hurtbox);
+  }
+
+  /**
+   * Forget a collider, e.g. before it is removed from the world.
+   * Rapier reuses handles, so a stale entry would match a new collider.
+   */
+  removeCollider(collider: Collider): void {
+    this.hurtboxes.delete(collider.handle);
+  }
+
+  /**
+   * Forget every collider of a hurtbox
+   */
+  removeHurtbox(hurtbox: Hurtbox): void {
+    this.hurtboxes.forEach((value, handle) => {
+      if (value === hurtbox) {
+        this.hurtboxes.delete(handle);
+      }
+    });
+  }
+
+  getHurtbox(collider: Collider): Hurtbox | null {
+    if (!this.events.getLiveCollider(collider.handle)) return null;
+    return this.hurtboxes.get(collider.handle) ?? null;
+  }
+
+  dispose(): void {
+    this.hurtboxes.clear();
+  }
+}
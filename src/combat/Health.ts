@@ -0,0 +1,161 @@
+import * as THREE from "three";
+
+/**
+ * physical: weapon hits. fall: hard landings. void: falling out of the
+ * world, which also ignores invulnerability.
+ */
+export type DamageType = "physical" | "fall" | "void";
+
+export interface DamageInfo {
+  amount: number;
+  type: DamageType;
+  /** Whoever dealt the damage, if anyone */
+  source?: unknown;
+  /** Horizontal direction the damage pushes in */
+  direction?: THREE.Vector3;
+  /** Push speed (m/s) along direction */
+  knockback?: number;
+}
+
+export interface DamageResult extends DamageInfo {
+  /** Health actually lost after resistances */
+  applied: number;
+  remaining: number;
+  lethal: boolean;
+}
+
+export type DamageListener = (result: DamageResult) => void;
+
+export interface HealthParams {
+  maxHealth?: number;
+  /** Seconds after a hit during which further damage is ignored */
+  invulnerabilityTime?: number;
+  /** Damage multiplier per type (0 = immune), 1 when missing */
+  resistances?: Partial<Record<DamageType, number>>;
+}
+
+/**
+ * Hit points with damage types and invulnerability frames after each hit
+ */
+export class Health {
+  private params: Required<HealthParams>;
+  private current: number;
+  private invulnerableTime: number = 0;
+  private damageListeners = new Set<DamageListener>();
+  private deathListeners = new Set<DamageListener>();
+
+  constructor(params: HealthParams = {}) {
+    const { maxHealth = 100, invulnerabilityTime = 1, resistances = {} } = params;
+
+    this.params = { maxHealth, invulnerabilityTime, resistances: { ...resistances } };
+    this.current = maxHealth;
+  }
+
+  /**
+   * Lose health. Returns what was applied, or null if the damage was ignored
+   * (already dead, invulnerable or immune).
+   */
+  applyDamage(info: DamageInfo): DamageResult | null {
+    if (this.isDead()) return null;
+    if (this.isInvulnerable() && info.type !== "void") return null;
+
+    const multiplier = this.params.resistances[info.type] ?? 1;
+    const applied = Math.min(Math.max(info.amount * multiplier, 0), this.current);
+    if (applied <= 0) return null;
+
+    this.current -= applied;
+    this.invulnerableTime = this.params.invulnerabilityTime;
+
+    const result: DamageResult = {
+      ...info,
+      applied,
+      remaining: this.current,
+      lethal: this.current <= 0,
+    };
+    this.damageListeners.forEach((listener) => listener(result));
+    if (result.lethal) {
+      this.deathListeners.forEach((listener) => listener(result));
+    }
+    return result;
+  }
+
+  heal(amount: number): void {
+    if (this.isDead()) return;
+    this.current = Math.min(this.current + Math.max(amount, 0), this.params.maxHealth);
+  }
+
+  /**
+   * Back to full health, e.g. on respawn
+   */
+  revive(): void {
+    this.current = this.params.maxHealth;
+    this.invulnerableTime = 0;
+  }
+
+  /**
+   * Count down the invulnerability frames
+   */
+  update(delta: number): void {
+    this.invulnerableTime = Math.max(this.invulnerableTime - delta, 0);
+  }
+
+  /**
+   * Ignore damage for a while without taking any, e.g. after respawning
+   */
+  setInvulnerable(duration: number): void {
+    this.invulnerableTime = Math.max(this.invulnerableTime, duration);
+  }
+
+  isInvulnerable(): boolean {
+    return this.invulnerableTime > 0;
+  }
+
+  /**
+   * Seconds of invulnerability left
+   */
+  getInvulnerableTime(): number {
+    return this.invulnerableTime;
+  }
+
+  isDead(): boolean {
+    return this.current <= 0;
+  }
+
+  getCurrent(): number {
+    return this.current;
+  }
+
+  getMax(): number {
+    return this.params.maxHealth;
+  }
+
+  setMax(maxHealth: number): void {
+    this.params.maxHealth = Math.max(maxHealth, 1);
+    this.current = Math.min(this.current, this.params.maxHealth);
+  }
+
+  /**
+   * Listen for damage taken. Returns an unsubscribe function.
+   */
+  onDamage(listener: DamageListener): () => void {
+    this.damageListeners.add(listener);
+    return () => this.damageListeners.delete(listener);
+  }
+
+  /**
+   * Listen for the lethal hit. Returns an unsubscribe function.
+   */
+  onDeath(listener: DamageListener): () => void {
+    this.deathListeners.add(listener);
+    return () => this.deathListeners.delete(listener);
+  }
+
+  getParams(): Required<HealthParams> {
+    return { ...this.params, resistances: { ...this.params.resistances } };
+  }
+
+  dispose(): void {
+    this.damageListeners.clear();
+    this.deathListeners.clear();
+  }
+}
@@ -0,0 +1,258 @@
+import * as THREE from "three";
+import type { CombatSystem } from "./CombatSystem";
+import type { Hurtbox } from "./Hurtbox";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+
+export interface AttackInfo {
+  damage: number;
+  /** Speed (m/s) the target is pushed along the hit direction */
+  knockback: number;
+}
+
+export interface HitEvent {
+  hitbox: Hitbox;
+  hurtbox: Hurtbox;
+  /** Owner of the hitbox */
+  attacker: unknown;
+  /** Owner of the hurtbox */
+  target: unknown;
+  /** Point on the hurtbox closest to the hitbox (world space) */
+  point: THREE.Vector3;
+  /** Horizontal direction from the attacker to the hit point */
+  direction: THREE.Vector3;
+  attack: AttackInfo;
+}
+
+export type HitboxListener = (event: HitEvent) => void;
+
+export interface HitboxParams {
+  name?: string;
+  /** Center of the hitbox in the bone's space */
+  offset?: [number, number, number];
+  radius?: number;
+  /** Straight section of the capsule along the bone's Y axis (0 for a sphere) */
+  length?: number;
+  /** The attacker; its own hurtbox is never hit */
+  owner?: unknown;
+}
+
+/**
+ * Sensor collider that follows a bone (a hand, a weapon socket) and hits
+ * hurtboxes while active. Activate it for the active frames of an attack;
+ * each activation hits a given hurtbox at most once.
+ */
+export class Hitbox {
+  private params: Required<Omit<HitboxParams, "owner">>;
+  private owner: unknown;
+  private bone: THREE.Object3D | null = null;
+  private origin: THREE.Object3D | null = null;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: Collider | null = null;
+  private world: InstanceType<RAPIER["World"]> | null = null;
+  private combat: CombatSystem | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private listeners = new Set<HitboxListener>();
+  private active: boolean = false;
+  private attack: AttackInfo = { damage: 0, knockback: 0 };
+  private hitTargets = new Set<Hurtbox>();
+  private position = new THREE.Vector3();
+  private quaternion = new THREE.Quaternion();
+
+  constructor(params: HitboxParams = {}) {
+    const {
+      name = "Hitbox",
+      offset = [0, 0, 0],
+      radius = 0.3,
+      length = 0,
+      owner = null,
+    } = params;
+
+    this.params = { name, offset, radius, length };
+    this.owner = owner;
+  }
+
+  /**
+   * Follow a bone. Hit directions point away from origin (the attacker's
+   * body), or from the bone without one.
+   */
+  attach(bone: THREE.Object3D, origin: THREE.Object3D | null = null): void {
+    this.bone = bone;
+    this.origin = origin;
+  }
+
+  /**
+   * Create the kinematic sensor (disabled until activated)
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    combat: CombatSystem
+  ): void {
+    if (this.rigidBody) {
+      console.warn("Hitbox physics already added:", this.params.name);
+      return;
+    }
+
+    const { radius, length } = this.params;
+    this.rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased()
+    );
+
+    const colliderDesc =
+      length > 0
+        ? RAPIER.ColliderDesc.capsule(length / 2, radius)
+        : RAPIER.ColliderDesc.ball(radius);
+
+    // Kinematic sensors only see dynamic bodies by default
+    colliderDesc
+      .setSensor(true)
+      .setEnabled(false)
+      .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.ALL);
+
+    this.collider = world.createCollider(colliderDesc, this.rigidBody);
+    this.world = world;
+    this.combat = combat;
+
+    const events = combat.getEvents();
+    events.setOwner(this.collider, this);
+    this.unsubscribers.push(
+      events.on(this.collider, "collisionStart", (event) => {
+        this.handleOverlap(event.other);
+      })
+    );
+
+    console.log("Hitbox added:", this.params.name);
+  }
+
+  /**
+   * Move the sensor to the bone. Call after the animation update.
+   */
+  update(): void {
+    if (!this.bone || !this.rigidBody) return;
+
+    this.getWorldPose(this.bone, this.position, this.quaternion);
+    if (this.active) {
+      this.rigidBody.setNextKinematicTranslation(this.position);
+      this.rigidBody.setNextKinematicRotation(this.quaternion);
+    } else {
+      // Teleport while inactive so activating doesn't sweep from a stale pose
+      this.rigidBody.setTranslation(this.position, false);
+      this.rigidBody.setRotation(this.quaternion, false);
+    }
+  }
+
+  private getWorldPose(
+    bone: THREE.Object3D,
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion
+  ): void {
+    const [x, y, z] = this.params.offset;
+    bone.updateWorldMatrix(true, false);
+    position.set(x, y, z).applyMatrix4(bone.matrixWorld);
+    bone.getWorldQuaternion(quaternion);
+  }
+
+  /**
+   * Start hitting: a fresh swing that can hit every hurtbox once
+   */
+  activate(attack: AttackInfo): void {
+    this.attack = { ...attack };
+    this.hitTargets.clear();
+    if (this.active) return;
+
+    this.active = true;
+    this.collider?.setEnabled(true);
+  }
+
+  deactivate(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.collider?.setEnabled(false);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Listen for hits landed by this hitbox. Returns an unsubscribe function.
+   */
+  onHit(listener: HitboxListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleOverlap(other: Collider): void {
+    if (!this.active || !this.combat || !this.collider) return;
+
+    const hurtbox = this.combat.getHurtbox(other);
+    if (
+      !hurtbox ||
+      !hurtbox.isEnabled() ||
+      hurtbox.getOwner() === this.owner ||
+      this.hitTargets.has(hurtbox)
+    ) {
+      return;
+    }
+    this.hitTargets.add(hurtbox);
+
+    const center = this.collider.translation();
+    const projection = other.projectPoint(center, false);
+    const point = projection
+      ? new THREE.Vector3(projection.point.x, projection.point.y, projection.point.z)
+      : new THREE.Vector3(center.x, center.y, center.z);
+
+    const from = new THREE.Vector3(center.x, center.y, center.z);
+    this.origin?.getWorldPosition(from);
+    const direction = point.clone().sub(from).setY(0);
+    if (direction.lengthSq() < 1e-6) {
+      direction.set(0, 0, 1);
+    }
+    direction.normalize();
+
+    const event: HitEvent = {
+      hitbox: this,
+      hurtbox,
+      attacker: this.owner,
+      target: hurtbox.getOwner(),
+      point,
+      direction,
+      attack: { ...this.attack },
+    };
+    this.listeners.forEach((listener) => listener(event));
+    hurtbox.receiveHit(event);
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<Omit<HitboxParams, "owner">> {
+    return { ...this.params, offset: [...this.params.offset] };
+  }
+
+  getCollider(): Collider | null {
+    return this.collider;
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.collider && this.combat) {
+      this.combat.getEvents().removeCollider(this.collider);
+    }
+    if (this.rigidBody && this.world) {
+      this.world.removeRigidBody(this.rigidBody);
+    }
+    this.rigidBody = null;
+    this.collider = null;
+    this.listeners.clear();
+    this.hitTargets.clear();
+    this.bone = null;
+    this.origin = null;
+  }
+}
@@ -0,0 +1,56 @@
+import type { HitEvent } from "./Hitbox";
+
+export type HitListener = (event: HitEvent) => void;
+
+/**
+ * The part of an entity that attacks can hit. Its colliders are registered
+ * with the CombatSystem; hits are delivered to the listeners (damage,
+ * flinch...). A swing hits each hurtbox once, however many colliders it has.
+ */
+export class Hurtbox {
+  private owner: unknown;
+  private enabled: boolean = true;
+  private listeners = new Set<HitListener>();
+
+  /**
+   * @param owner The entity being hit, reported to attackers as the target
+   */
+  constructor(owner: unknown) {
+    this.owner = owner;
+  }
+
+  getOwner(): unknown {
+    return this.owner;
+  }
+
+  /**
+   * Disabled hurtboxes ignore hits (e.g. invulnerability frames)
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Listen for hits. Returns an unsubscribe function.
+   */
+  onHit(listener: HitListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Called by a hitbox that overlaps one of the hurtbox's colliders
+   */
+  receiveHit(event: HitEvent): void {
+    if (!this.enabled) return;
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
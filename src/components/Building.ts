@@ -4,6 +4,17 @@ import { TILE_DENSITY } from "./tileMaterialConfig";
 
 type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
 
+export interface BuildingImpact {
+  /** Total contact force (N) */
+  force: number;
+  /** The collider that hit the building */
+  collider: InstanceType<RAPIER["Collider"]>;
+  /** Owner registered for that collider (e.g. the CharacterController) */
+  owner: unknown;
+}
+
+export type BuildingImpactListener = (impact: BuildingImpact) => void;
+
 export interface BuildingParams {
   scale?: number;
   position?: [number, number, number];
@@ -18,6 +29,9 @@ export class Building {
   private geometry: THREE.BoxGeometry;
   private rigidBody: RAPIER.RigidBody | null = null;
   private collider: RAPIER.Collider | null = null;
+  private params: Required<BuildingParams>;
+  private lastImpact: BuildingImpact | null = null;
+  private impactListeners = new Set<BuildingImpactListener>();
 
   constructor(params: BuildingParams = {}) {
     const {
@@ -28,6 +42,8 @@ export class Building {
       depth = 14,
     } = params;
 
+    this.params = { scale, position, width, height, depth };
+
     // Create building geometry
     const buildingWidth = width * scale;
     const buildingHeight = height * scale;
@@ -125,10 +141,37 @@ export class Building {
     console.log("Building physics added");
   }
 
+  /**
+   * Record a hard contact and notify the impact listeners
+   */
+  reportImpact(impact: BuildingImpact): void {
+    this.lastImpact = impact;
+    this.impactListeners.forEach((listener) => listener(impact));
+  }
+
+  /**
+   * Add an impact listener. Returns an unsubscribe function.
+   */
+  onImpact(listener: BuildingImpactListener): () => void {
+    this.impactListeners.add(listener);
+    return () => this.impactListeners.delete(listener);
+  }
+
+  /**
+   * Most recent hard contact, null if nothing has hit the building yet
+   */
+  getLastImpact(): BuildingImpact | null {
+    return this.lastImpact;
+  }
+
   getRigidBody(): InstanceType<RAPIER["RigidBody"]> | null {
     return this.rigidBody;
   }
 
+  getCollider(): InstanceType<RAPIER["Collider"]> | null {
+    return this.collider;
+  }
+
   getMesh(): THREE.Mesh {
     return this.mesh;
   }
@@ -137,7 +180,12 @@ export class Building {
     return this.tileMaterial;
   }
 
+  getParams(): Required<BuildingParams> {
+    return { ...this.params, position: this.mesh.position.toArray() };
+  }
+
   dispose(): void {
+    this.impactListeners.clear();
     this.geometry.dispose();
     this.tileMaterial.dispose();
   }
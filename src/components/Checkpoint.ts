@@ -0,0 +1,150 @@
+import * as THREE from "three";
+import { TriggerVolume } from "./TriggerVolume";
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export interface CheckpointParams {
+  name?: string;
+  /** Respawn point, on the ground */
+  position?: [number, number, number];
+  /** Facing after respawning, around Y (radians) */
+  rotation?: number;
+  /** Full extents of the trigger box, which stands on position */
+  size?: [number, number, number];
+}
+
+export type CheckpointListener = (checkpoint: Checkpoint) => void;
+
+const POLE_HEIGHT = 1.6;
+const INACTIVE_COLOR = 0x555555;
+const ACTIVE_COLOR = 0x33ff99;
+
+/**
+ * Respawn point: a marker post and a player trigger around it. Entering
+ * the trigger activates the checkpoint (see onActivate).
+ */
+export class Checkpoint {
+  private params: Required<CheckpointParams>;
+  private group: THREE.Group;
+  private geometries: THREE.BufferGeometry[] = [];
+  private poleMaterial: THREE.MeshStandardMaterial;
+  private lampMaterial: THREE.MeshStandardMaterial;
+  private trigger: TriggerVolume;
+  private listeners = new Set<CheckpointListener>();
+  private active: boolean = false;
+
+  constructor(params: CheckpointParams = {}) {
+    const {
+      name = "Checkpoint",
+      position = [0, 0, 0],
+      rotation = 0,
+      size = [3, 3, 3],
+    } = params;
+    this.params = { name, position, rotation, size };
+
+    this.group = new THREE.Group();
+    this.group.name = name;
+    this.group.position.set(position[0], position[1], position[2]);
+    this.group.rotation.y = rotation;
+
+    this.poleMaterial = new THREE.MeshStandardMaterial({ color: 0x888888, roughness: 0.6 });
+    this.lampMaterial = new THREE.MeshStandardMaterial({
+      color: INACTIVE_COLOR,
+      emissive: ACTIVE_COLOR,
+      emissiveIntensity: 0,
+    });
+
+    const poleGeometry = new THREE.CylinderGeometry(0.05, 0.05, POLE_HEIGHT, 8);
+    const lampGeometry = new THREE.SphereGeometry(0.15, 16, 12);
+    this.geometries.push(poleGeometry, lampGeometry);
+
+    const pole = new THREE.Mesh(poleGeometry, this.poleMaterial);
+    pole.position.y = POLE_HEIGHT / 2;
+    pole.castShadow = true;
+    const lamp = new THREE.Mesh(lampGeometry, this.lampMaterial);
+    lamp.position.y = POLE_HEIGHT + 0.1;
+    this.group.add(pole, lamp);
+
+    this.trigger = new TriggerVolume({
+      name: `${name} (checkpoint)`,
+      position: [position[0], position[1] + size[1] / 2, position[2]],
+      rotation: [0, rotation, 0],
+      size,
+      tags: ["player"],
+      onEnter: () => this.activate(),
+    });
+  }
+
+  /**
+   * Create the trigger sensor
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    events: PhysicsEventBus
+  ): void {
+    this.trigger.addPhysics(RAPIER, world, events);
+  }
+
+  /**
+   * Make this the checkpoint to respawn at (notifies listeners once)
+   */
+  activate(): void {
+    if (this.active) return;
+
+    this.setActive(true);
+    this.listeners.forEach((listener) => listener(this));
+  }
+
+  /**
+   * Light or dim the marker, e.g. when another checkpoint takes over
+   */
+  setActive(active: boolean): void {
+    this.active = active;
+    this.lampMaterial.color.setHex(active ? ACTIVE_COLOR : INACTIVE_COLOR);
+    this.lampMaterial.emissiveIntensity = active ? 0.8 : 0;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Listen for activation. Returns an unsubscribe function.
+   */
+  onActivate(listener: CheckpointListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<CheckpointParams> {
+    return {
+      ...this.params,
+      position: [...this.params.position],
+      size: [...this.params.size],
+    };
+  }
+
+  getMesh(): THREE.Group {
+    return this.group;
+  }
+
+  getHelper(): THREE.Mesh {
+    return this.trigger.getHelper();
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+    this.trigger.dispose();
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.poleMaterial.dispose();
+    this.lampMaterial.dispose();
+    this.group.removeFromParent();
+  }
+}
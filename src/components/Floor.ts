@@ -17,6 +17,7 @@ export class Floor {
   private rigidBody: RAPIER.RigidBody | null = null;
   private collider: RAPIER.Collider | null = null;
   private onTerrainReady?: () => void;
+  private textureScale: number;
 
   constructor(params: FloorParams = {}) {
     const {
@@ -27,6 +28,7 @@ export class Floor {
     } = params;
 
     this.onTerrainReady = onTerrainReady;
+    this.textureScale = textureScale;
 
     // Create floor geometry (plane rotated to be horizontal)
     const geometry = new THREE.PlaneGeometry(size, size);
@@ -94,6 +96,7 @@ export class Floor {
   }
 
   setTextureScale(scale: number): void {
+    this.textureScale = scale;
     this.tileMaterial.setTextureScale(scale);
   }
 
@@ -105,6 +108,14 @@ export class Floor {
     this.tileMaterial.setGradientBias(bias);
   }
 
+  getParams(): Required<Omit<FloorParams, "onTerrainReady">> {
+    return {
+      size: (this.mesh.geometry as THREE.PlaneGeometry).parameters.width,
+      position: this.mesh.position.toArray(),
+      textureScale: this.textureScale,
+    };
+  }
+
   dispose(): void {
     this.mesh.geometry.dispose();
     this.tileMaterial.dispose();
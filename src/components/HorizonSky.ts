@@ -16,6 +16,7 @@ export class HorizonSky {
     offset: { value: number };
     exponent: { value: number };
   };
+  private radius: number;
 
   constructor(params: HorizonSkyParams = {}) {
     const {
@@ -26,6 +27,8 @@ export class HorizonSky {
       radius = 4000,
     } = params;
 
+    this.radius = radius;
+
     // Create uniforms
     this.uniforms = {
       topColor: { value: new THREE.Color(topColor) },
@@ -95,6 +98,16 @@ export class HorizonSky {
     this.uniforms.exponent.value = exponent;
   }
 
+  getParams(): Required<HorizonSkyParams> {
+    return {
+      topColor: `#${this.uniforms.topColor.value.getHexString()}`,
+      bottomColor: `#${this.uniforms.bottomColor.value.getHexString()}`,
+      offset: this.uniforms.offset.value,
+      exponent: this.uniforms.exponent.value,
+      radius: this.radius,
+    };
+  }
+
   dispose(): void {
     this.mesh.geometry.dispose();
     (this.mesh.material as THREE.ShaderMaterial).dispose();
@@ -0,0 +1,265 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export type LevelColliderType = "trimesh" | "convex" | "none";
+
+export interface LevelGeometryParams {
+  url: string;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: number;
+  defaultCollider?: LevelColliderType;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}
+
+// Godot-style import hints in node names (the character library is exported from Godot).
+// "*only" variants keep the collider but hide the render mesh.
+const NAME_HINTS: { suffix: string; collider: LevelColliderType; hide: boolean }[] = [
+  { suffix: "-convcolonly", collider: "convex", hide: true },
+  { suffix: "-convcol", collider: "convex", hide: false },
+  { suffix: "-colonly", collider: "trimesh", hide: true },
+  { suffix: "-col", collider: "trimesh", hide: false },
+  { suffix: "-nocol", collider: "none", hide: false },
+];
+
+const COLLIDER_TYPES: LevelColliderType[] = ["trimesh", "convex", "none"];
+
+export class LevelGeometry {
+  private root: THREE.Group;
+  private url: string;
+  private params: Required<LevelGeometryParams>;
+  private defaultCollider: LevelColliderType;
+  private castShadow: boolean;
+  private receiveShadow: boolean;
+  private meshes: THREE.Mesh[] = [];
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private colliders: InstanceType<RAPIER["Collider"]>[] = [];
+  private loaded: boolean = false;
+
+  constructor(params: LevelGeometryParams) {
+    const {
+      url,
+      position = [0, 0, 0],
+      rotation = [0, 0, 0],
+      scale = 1,
+      defaultCollider = "trimesh",
+      castShadow = true,
+      receiveShadow = true,
+    } = params;
+
+    this.params = {
+      url,
+      position,
+      rotation,
+      scale,
+      defaultCollider,
+      castShadow,
+      receiveShadow,
+    };
+    this.url = url;
+    this.defaultCollider = defaultCollider;
+    this.castShadow = castShadow;
+    this.receiveShadow = receiveShadow;
+
+    // Root group is added to the scene right away; the GLB content is attached on load
+    this.root = new THREE.Group();
+    this.root.name = url;
+    this.root.position.set(position[0], position[1], position[2]);
+    this.root.rotation.set(rotation[0], rotation[1], rotation[2]);
+    this.root.scale.setScalar(scale);
+  }
+
+  /**
+   * Load the GLB and attach its scene to the root group
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    // Setup DRACO loader for compressed models
+    const dracoLoader = new DRACOLoader();
+    // Use CDN for draco decoder (works with Vite)
+    dracoLoader.setDecoderPath(
+      "https://www.gstatic.com/draco/versioned/decoders/1.5.7/"
+    );
+
+    const loader = new GLTFLoader();
+    loader.setDRACOLoader(dracoLoader);
+
+    const gltf = await loader.loadAsync(this.url);
+    dracoLoader.dispose();
+
+    gltf.scene.traverse((child) => {
+      if (!(child as THREE.Mesh).isMesh) {
+        return;
+      }
+
+      const mesh = child as THREE.Mesh;
+      mesh.castShadow = this.castShadow;
+      mesh.receiveShadow = this.receiveShadow;
+      if (this.getNameHint(mesh)?.hide) {
+        mesh.visible = false;
+      }
+      this.meshes.push(mesh);
+    });
+
+    this.root.add(gltf.scene);
+    this.loaded = true;
+
+    console.log("Level geometry loaded:", this.url, {
+      meshes: this.meshes.length,
+    });
+  }
+
+  /**
+   * Add fixed colliders for every mesh in the level
+   * Must be called after load() resolved and PhysicsManager is initialized
+   */
+  addPhysics(RAPIER: RAPIER, world: InstanceType<RAPIER["World"]>): void {
+    if (this.rigidBody) {
+      console.warn("Level geometry physics already added:", this.url);
+      return;
+    }
+
+    if (!this.loaded) {
+      console.warn("Level geometry physics added before load():", this.url);
+      return;
+    }
+
+    // Colliders are baked in world space, so the body sits at the origin
+    this.root.updateMatrixWorld(true);
+    this.rigidBody = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+
+    const counts: Record<LevelColliderType, number> = {
+      trimesh: 0,
+      convex: 0,
+      none: 0,
+    };
+
+    this.meshes.forEach((mesh) => {
+      const type = this.getColliderType(mesh);
+      counts[type]++;
+
+      if (type === "none") {
+        return;
+      }
+
+      const { vertices, indices } = this.getWorldGeometry(mesh);
+
+      let colliderDesc: InstanceType<RAPIER["ColliderDesc"]> | null = null;
+      if (type === "convex") {
+        colliderDesc = RAPIER.ColliderDesc.convexHull(vertices);
+        if (!colliderDesc) {
+          console.warn(
+            `Convex hull failed for "${mesh.name}", falling back to trimesh`
+          );
+        }
+      }
+      if (!colliderDesc) {
+        colliderDesc = RAPIER.ColliderDesc.trimesh(vertices, indices);
+      }
+
+      colliderDesc.setFriction(1).setRestitution(0);
+      this.colliders.push(world.createCollider(colliderDesc, this.rigidBody!));
+    });
+
+    console.log("Level geometry physics added:", this.url, counts);
+  }
+
+  /**
+   * Resolve the collider type for a mesh: glTF extras on the mesh or any
+   * ancestor win, then node name hints, then the level default
+   */
+  private getColliderType(mesh: THREE.Mesh): LevelColliderType {
+    let node: THREE.Object3D | null = mesh;
+    while (node && node !== this.root) {
+      const extra = node.userData?.collider;
+      if (COLLIDER_TYPES.includes(extra)) {
+        return extra;
+      }
+      if (extra !== undefined) {
+        console.warn(`Unknown collider extra "${extra}" on "${node.name}"`);
+      }
+      node = node.parent;
+    }
+
+    return this.getNameHint(mesh)?.collider ?? this.defaultCollider;
+  }
+
+  private getNameHint(mesh: THREE.Mesh) {
+    // GLTFLoader keeps the original node name in userData.name when sanitizing
+    const name = String(mesh.userData?.name ?? mesh.name).toLowerCase();
+    return NAME_HINTS.find((hint) => name.endsWith(hint.suffix));
+  }
+
+  private getWorldGeometry(mesh: THREE.Mesh): {
+    vertices: Float32Array;
+    indices: Uint32Array;
+  } {
+    const geometry = mesh.geometry;
+    const positionAttr = geometry.attributes.position;
+    const vertices = new Float32Array(positionAttr.count * 3);
+    const vertex = new THREE.Vector3();
+
+    for (let i = 0; i < positionAttr.count; i++) {
+      vertex.fromBufferAttribute(positionAttr, i).applyMatrix4(mesh.matrixWorld);
+      vertices[i * 3] = vertex.x;
+      vertices[i * 3 + 1] = vertex.y;
+      vertices[i * 3 + 2] = vertex.z;
+    }
+
+    let indices: Uint32Array;
+    if (geometry.index) {
+      indices = Uint32Array.from(geometry.index.array);
+    } else {
+      indices = new Uint32Array(positionAttr.count);
+      for (let i = 0; i < positionAttr.count; i++) {
+        indices[i] = i;
+      }
+    }
+
+    return { vertices, indices };
+  }
+
+  getParams(): Required<LevelGeometryParams> {
+    return {
+      ...this.params,
+      position: this.root.position.toArray(),
+      rotation: [this.root.rotation.x, this.root.rotation.y, this.root.rotation.z],
+      scale: this.root.scale.x,
+    };
+  }
+
+  getRoot(): THREE.Group {
+    return this.root;
+  }
+
+  getMeshes(): THREE.Mesh[] {
+    return this.meshes;
+  }
+
+  getRigidBody(): InstanceType<RAPIER["RigidBody"]> | null {
+    return this.rigidBody;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  dispose(): void {
+    this.meshes.forEach((mesh) => {
+      mesh.geometry.dispose();
+      const materials = Array.isArray(mesh.material)
+        ? mesh.material
+        : [mesh.material];
+      materials.forEach((material) => material.dispose());
+    });
+    this.meshes = [];
+    this.root.removeFromParent();
+  }
+}
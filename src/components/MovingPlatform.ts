@@ -0,0 +1,276 @@
+import * as THREE from "three";
+import { TileMaterial } from "./TileMaterial";
+import { TILE_DENSITY } from "./tileMaterialConfig";
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export type PlatformPathMode = "pingpong" | "loop";
+export type PlatformEasing = "linear" | "smooth";
+
+export interface MovingPlatformParams {
+  name?: string;
+  /** Full extents of the platform box */
+  size?: [number, number, number];
+  /** Start position (center of the box) */
+  position?: [number, number, number];
+  /** Path points as offsets from position; the start is implicitly [0, 0, 0] */
+  waypoints?: [number, number, number][];
+  /** Travel speed along the path (m/s) */
+  speed?: number;
+  /** Pause at each waypoint (seconds) */
+  wait?: number;
+  mode?: PlatformPathMode;
+  easing?: PlatformEasing;
+  /** Spin around Y (radians per second) */
+  rotationSpeed?: number;
+}
+
+export class MovingPlatform {
+  private mesh: THREE.Mesh;
+  private geometry: THREE.BoxGeometry;
+  private tileMaterial: TileMaterial;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: InstanceType<RAPIER["Collider"]> | null = null;
+  private params: Required<MovingPlatformParams>;
+  private path: THREE.Vector3[];
+
+  // Path state
+  private segment: number = 0;
+  private direction: 1 | -1 = 1;
+  private segmentTime: number = 0;
+  private waitTime: number = 0;
+
+  // Simulated pose (fixed-step) and the pose before the last step for interpolation
+  private position = new THREE.Vector3();
+  private prevPosition = new THREE.Vector3();
+  private yaw: number = 0;
+  private prevYaw: number = 0;
+  private velocity = new THREE.Vector3();
+  private tempQuaternion = new THREE.Quaternion();
+
+  constructor(params: MovingPlatformParams = {}) {
+    const {
+      name = "Platform",
+      size = [4, 0.5, 4],
+      position = [0, 0, 0],
+      waypoints = [],
+      speed = 2,
+      wait = 1,
+      mode = "pingpong",
+      easing = "smooth",
+      rotationSpeed = 0,
+    } = params;
+
+    this.params = { name, size, position, waypoints, speed, wait, mode, easing, rotationSpeed };
+
+    const start = new THREE.Vector3(position[0], position[1], position[2]);
+    this.path = [
+      start,
+      ...waypoints.map((offset) =>
+        new THREE.Vector3(offset[0], offset[1], offset[2]).add(start)
+      ),
+    ];
+    this.position.copy(start);
+    this.prevPosition.copy(start);
+
+    this.geometry = new THREE.BoxGeometry(size[0], size[1], size[2]);
+
+    // Tile UVs in world units so the grid matches the floor and buildings
+    const positionAttr = this.geometry.attributes.position;
+    const normalAttr = this.geometry.attributes.normal;
+    const uvAttr = this.geometry.attributes.uv;
+    for (let i = 0; i < uvAttr.count; i++) {
+      const x = positionAttr.getX(i) + size[0] / 2;
+      const y = positionAttr.getY(i) + size[1] / 2;
+      const z = positionAttr.getZ(i) + size[2] / 2;
+      const nx = Math.abs(normalAttr.getX(i));
+      const ny = Math.abs(normalAttr.getY(i));
+      if (nx > 0.5) {
+        uvAttr.setXY(i, z * TILE_DENSITY, y * TILE_DENSITY);
+      } else if (ny > 0.5) {
+        uvAttr.setXY(i, x * TILE_DENSITY, z * TILE_DENSITY);
+      } else {
+        uvAttr.setXY(i, x * TILE_DENSITY, y * TILE_DENSITY);
+      }
+    }
+    uvAttr.needsUpdate = true;
+
+    this.tileMaterial = new TileMaterial({
+      textureScale: TILE_DENSITY,
+    });
+
+    this.mesh = new THREE.Mesh(this.geometry, this.tileMaterial.getMaterial());
+    this.mesh.name = name;
+    this.mesh.position.copy(start);
+    this.mesh.castShadow = true;
+    this.mesh.receiveShadow = true;
+  }
+
+  /**
+   * Create the kinematic body and register the platform as its collider owner
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    events: PhysicsEventBus
+  ): void {
+    if (this.rigidBody) {
+      console.warn("Platform physics already added:", this.params.name);
+      return;
+    }
+
+    const [width, height, depth] = this.params.size;
+    this.rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+        this.position.x,
+        this.position.y,
+        this.position.z
+      )
+    );
+    this.collider = world.createCollider(
+      RAPIER.ColliderDesc.cuboid(width / 2, height / 2, depth / 2)
+        .setFriction(1)
+        .setRestitution(0),
+      this.rigidBody
+    );
+
+    // Lets the character find the platform from its ground ray hit
+    events.setOwner(this.collider, this);
+
+    console.log("Moving platform physics added:", this.params.name, {
+      waypoints: this.path.length,
+      mode: this.params.mode,
+    });
+  }
+
+  /**
+   * Advance the path by one physics step and queue the next kinematic pose
+   * Registered with PhysicsManager.addStepListener()
+   */
+  step(dt: number): void {
+    this.prevPosition.copy(this.position);
+    this.prevYaw = this.yaw;
+
+    this.advancePath(dt);
+    this.yaw += this.params.rotationSpeed * dt;
+
+    if (dt > 0) {
+      this.velocity.subVectors(this.position, this.prevPosition).divideScalar(dt);
+    }
+
+    if (this.rigidBody) {
+      this.rigidBody.setNextKinematicTranslation(this.position);
+      this.tempQuaternion.setFromAxisAngle(THREE.Object3D.DEFAULT_UP, this.yaw);
+      this.rigidBody.setNextKinematicRotation(this.tempQuaternion);
+    }
+  }
+
+  private advancePath(dt: number): void {
+    if (this.path.length < 2 || this.params.speed <= 0) {
+      this.velocity.set(0, 0, 0);
+      return;
+    }
+
+    if (this.waitTime > 0) {
+      this.waitTime = Math.max(this.waitTime - dt, 0);
+      return;
+    }
+
+    const from = this.path[this.segment];
+    const to = this.path[this.getNextIndex()];
+    const duration = Math.max(from.distanceTo(to) / this.params.speed, 1e-3);
+
+    this.segmentTime += dt;
+    if (this.segmentTime >= duration) {
+      // Arrived: snap to the waypoint and pick the next segment
+      this.position.copy(to);
+      this.segment = this.getNextIndex();
+      this.segmentTime = 0;
+      this.waitTime = this.params.wait;
+
+      if (this.params.mode === "pingpong") {
+        const last = this.path.length - 1;
+        if (this.segment === last) this.direction = -1;
+        if (this.segment === 0) this.direction = 1;
+      }
+      return;
+    }
+
+    const t = this.segmentTime / duration;
+    const eased = this.params.easing === "smooth" ? t * t * (3 - 2 * t) : t;
+    this.position.lerpVectors(from, to, eased);
+  }
+
+  private getNextIndex(): number {
+    const count = this.path.length;
+    if (this.params.mode === "loop") {
+      return (this.segment + 1) % count;
+    }
+    return this.segment + this.direction;
+  }
+
+  /**
+   * Interpolate the mesh between the last two physics poses
+   */
+  update(interpolationAlpha: number): void {
+    this.mesh.position.lerpVectors(this.prevPosition, this.position, interpolationAlpha);
+    this.mesh.rotation.y = THREE.MathUtils.lerp(this.prevYaw, this.yaw, interpolationAlpha);
+  }
+
+  /**
+   * Velocity of the platform surface at a world-space point
+   * (linear motion plus the tangential part of the spin)
+   */
+  getVelocityAt(point: { x: number; z: number }): THREE.Vector3 {
+    const omega = this.params.rotationSpeed;
+    const rx = point.x - this.position.x;
+    const rz = point.z - this.position.z;
+    // omega (0, w, 0) x r (rx, 0, rz) = (w * rz, 0, -w * rx)
+    return new THREE.Vector3(
+      this.velocity.x + omega * rz,
+      this.velocity.y,
+      this.velocity.z - omega * rx
+    );
+  }
+
+  /**
+   * Spin rate around Y in radians per second
+   */
+  getAngularVelocityY(): number {
+    return this.params.rotationSpeed;
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<MovingPlatformParams> {
+    return {
+      ...this.params,
+      size: [...this.params.size],
+      position: [...this.params.position],
+      waypoints: this.params.waypoints.map(
+        (offset) => [...offset] as [number, number, number]
+      ),
+    };
+  }
+
+  getMesh(): THREE.Mesh {
+    return this.mesh;
+  }
+
+  getRigidBody(): InstanceType<RAPIER["RigidBody"]> | null {
+    return this.rigidBody;
+  }
+
+  getCollider(): InstanceType<RAPIER["Collider"]> | null {
+    return this.collider;
+  }
+
+  dispose(): void {
+    this.geometry.dispose();
+    this.tileMaterial.dispose();
+  }
+}
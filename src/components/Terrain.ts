@@ -0,0 +1,274 @@
+import * as THREE from "three";
+import { TileMaterial } from "./TileMaterial";
+import { TILE_DENSITY } from "./tileMaterialConfig";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export interface TerrainParams {
+  heightmapUrl?: string;
+  size?: number;
+  maxHeight?: number;
+  segments?: number;
+  position?: [number, number, number];
+  textureScale?: number;
+}
+
+export class Terrain {
+  private mesh: THREE.Mesh;
+  private geometry: THREE.PlaneGeometry;
+  private tileMaterial: TileMaterial;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: InstanceType<RAPIER["Collider"]> | null = null;
+  private heightmapUrl: string;
+  private textureScale: number;
+  private size: number;
+  private maxHeight: number;
+  private segments: number;
+  // Normalized (0-1) heights, row-major: index = iz * (segments + 1) + ix
+  private heights: Float32Array;
+  private loaded: boolean = false;
+
+  constructor(params: TerrainParams = {}) {
+    const {
+      heightmapUrl = "/textures/unreal-heightmap.png",
+      size = 200,
+      maxHeight = 20,
+      segments = 128,
+      position = [0, 0, 0],
+      textureScale = size * TILE_DENSITY,
+    } = params;
+
+    this.heightmapUrl = heightmapUrl;
+    this.textureScale = textureScale;
+    this.size = size;
+    this.maxHeight = maxHeight;
+    this.segments = segments;
+    this.heights = new Float32Array((segments + 1) * (segments + 1));
+
+    // Bake the horizontal rotation into the geometry so vertex Y is height
+    this.geometry = new THREE.PlaneGeometry(size, size, segments, segments);
+    this.geometry.rotateX(-Math.PI / 2);
+
+    this.tileMaterial = new TileMaterial({
+      textureScale,
+      gradientIntensity: 0.5,
+      gradientBias: 0.0,
+    });
+
+    this.mesh = new THREE.Mesh(this.geometry, this.tileMaterial.getMaterial());
+    this.mesh.position.set(position[0], position[1], position[2]);
+    this.mesh.castShadow = true;
+    this.mesh.receiveShadow = true;
+  }
+
+  /**
+   * Load the heightmap image and displace the mesh
+   * Must resolve before addPhysics() so the collider matches the mesh
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    const image = await new THREE.ImageLoader().loadAsync(this.heightmapUrl);
+
+    // Read pixels through a canvas (browsers decode 16-bit PNGs to 8-bit here)
+    const canvas = document.createElement("canvas");
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      throw new Error("Terrain: could not create 2D context for heightmap");
+    }
+    context.drawImage(image, 0, 0);
+    const { data, width, height } = context.getImageData(
+      0,
+      0,
+      image.width,
+      image.height
+    );
+
+    const sample = (px: number, py: number): number =>
+      data[(py * width + px) * 4] / 255;
+
+    // Bilinear sample the image at each grid vertex
+    const vertexCount = this.segments + 1;
+    for (let iz = 0; iz < vertexCount; iz++) {
+      const v = (iz / this.segments) * (height - 1);
+      const y0 = Math.floor(v);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const ty = v - y0;
+
+      for (let ix = 0; ix < vertexCount; ix++) {
+        const u = (ix / this.segments) * (width - 1);
+        const x0 = Math.floor(u);
+        const x1 = Math.min(x0 + 1, width - 1);
+        const tx = u - x0;
+
+        const top = THREE.MathUtils.lerp(sample(x0, y0), sample(x1, y0), tx);
+        const bottom = THREE.MathUtils.lerp(sample(x0, y1), sample(x1, y1), tx);
+        this.heights[iz * vertexCount + ix] = THREE.MathUtils.lerp(
+          top,
+          bottom,
+          ty
+        );
+      }
+    }
+
+    // PlaneGeometry vertices run row by row from -Z to +Z (after rotateX),
+    // and left to right along X, so they line up with the heights array
+    const positionAttr = this.geometry.attributes.position;
+    for (let i = 0; i < positionAttr.count; i++) {
+      positionAttr.setY(i, this.heights[i] * this.maxHeight);
+    }
+    positionAttr.needsUpdate = true;
+    this.geometry.computeVertexNormals();
+    this.geometry.computeBoundingBox();
+    this.geometry.computeBoundingSphere();
+
+    this.loaded = true;
+    console.log("Terrain heightmap loaded:", this.heightmapUrl, {
+      image: `${width}x${height}`,
+      segments: this.segments,
+    });
+  }
+
+  /**
+   * Add heightfield collider to the terrain
+   * Must be called after PhysicsManager is initialized and load() resolved
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    onTerrainReady?: () => void
+  ): void {
+    if (this.rigidBody || this.collider) {
+      console.warn("Terrain physics already added");
+      return;
+    }
+
+    if (!this.loaded) {
+      console.warn("Terrain physics added before heightmap loaded, terrain is flat");
+    }
+
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed().setTranslation(
+      this.mesh.position.x,
+      this.mesh.position.y,
+      this.mesh.position.z
+    );
+
+    this.rigidBody = world.createRigidBody(rigidBodyDesc);
+
+    // Rapier expects a column-major matrix with rows along Z and columns along X
+    const vertexCount = this.segments + 1;
+    const columnMajor = new Float32Array(vertexCount * vertexCount);
+    for (let iz = 0; iz < vertexCount; iz++) {
+      for (let ix = 0; ix < vertexCount; ix++) {
+        columnMajor[ix * vertexCount + iz] = this.heights[iz * vertexCount + ix];
+      }
+    }
+
+    const colliderDesc = RAPIER.ColliderDesc.heightfield(
+      this.segments,
+      this.segments,
+      columnMajor,
+      { x: this.size, y: this.maxHeight, z: this.size }
+    )
+      .setFriction(1)
+      .setRestitution(0);
+
+    this.collider = world.createCollider(colliderDesc, this.rigidBody);
+
+    console.log("Terrain physics added");
+
+    if (onTerrainReady) {
+      onTerrainReady();
+    }
+  }
+
+  /**
+   * Returns true if the world-space (x, z) point lies over the terrain
+   */
+  contains(x: number, z: number): boolean {
+    const halfSize = this.size / 2;
+    const localX = x - this.mesh.position.x;
+    const localZ = z - this.mesh.position.z;
+    return Math.abs(localX) <= halfSize && Math.abs(localZ) <= halfSize;
+  }
+
+  /**
+   * World-space surface height at (x, z), clamped to the terrain edges
+   * Uses the same per-cell triangles as the rendered mesh
+   */
+  getHeightAt(x: number, z: number): number {
+    const halfSize = this.size / 2;
+    const cellSize = this.size / this.segments;
+    const vertexCount = this.segments + 1;
+
+    const gx = THREE.MathUtils.clamp(
+      (x - this.mesh.position.x + halfSize) / cellSize,
+      0,
+      this.segments
+    );
+    const gz = THREE.MathUtils.clamp(
+      (z - this.mesh.position.z + halfSize) / cellSize,
+      0,
+      this.segments
+    );
+
+    const ix = Math.min(Math.floor(gx), this.segments - 1);
+    const iz = Math.min(Math.floor(gz), this.segments - 1);
+    const fx = gx - ix;
+    const fz = gz - iz;
+
+    const h00 = this.heights[iz * vertexCount + ix];
+    const h10 = this.heights[iz * vertexCount + ix + 1];
+    const h01 = this.heights[(iz + 1) * vertexCount + ix];
+    const h11 = this.heights[(iz + 1) * vertexCount + ix + 1];
+
+    // PlaneGeometry splits each cell along the (ix, iz + 1) - (ix + 1, iz) diagonal
+    const height =
+      fx + fz <= 1
+        ? h00 + (h10 - h00) * fx + (h01 - h00) * fz
+        : h11 + (h01 - h11) * (1 - fx) + (h10 - h11) * (1 - fz);
+
+    return this.mesh.position.y + height * this.maxHeight;
+  }
+
+  getRigidBody(): InstanceType<RAPIER["RigidBody"]> | null {
+    return this.rigidBody;
+  }
+
+  getMesh(): THREE.Mesh {
+    return this.mesh;
+  }
+
+  getTileMaterial(): TileMaterial {
+    return this.tileMaterial;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  setTextureScale(scale: number): void {
+    this.textureScale = scale;
+    this.tileMaterial.setTextureScale(scale);
+  }
+
+  getParams(): Required<TerrainParams> {
+    return {
+      heightmapUrl: this.heightmapUrl,
+      size: this.size,
+      maxHeight: this.maxHeight,
+      segments: this.segments,
+      position: this.mesh.position.toArray(),
+      textureScale: this.textureScale,
+    };
+  }
+
+  dispose(): void {
+    this.geometry.dispose();
+    this.tileMaterial.dispose();
+  }
+}
@@ -0,0 +1,208 @@
+import * as THREE from "three";
+import { Hurtbox } from "../combat/Hurtbox";
+import type { CombatSystem } from "../combat/CombatSystem";
+import type { HitEvent } from "../combat/Hitbox";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export interface TrainingDummyParams {
+  name?: string;
+  /** Base of the post, on the ground */
+  position?: [number, number, number];
+  /** Rotation around Y (radians) */
+  rotation?: number;
+}
+
+const POST_HEIGHT = 1.7;
+const BODY_RADIUS = 0.3;
+// Wobble spring back to upright
+const WOBBLE_STIFFNESS = 60;
+const WOBBLE_DAMPING = 5;
+// Tilt speed (rad/s) a hit adds, plus a share of its knockback
+const WOBBLE_IMPULSE = 2;
+const MAX_TILT = 0.5;
+const FLASH_DURATION = 0.2;
+const FLASH_COLOR = 0xff3333;
+
+/**
+ * Static target for trying out attacks: a fixed capsule with a hurtbox
+ * that wobbles and flashes when hit and keeps a running damage total
+ */
+export class TrainingDummy {
+  private group: THREE.Group;
+  private pivot: THREE.Group;
+  private geometries: THREE.BufferGeometry[] = [];
+  private bodyMaterial: THREE.MeshStandardMaterial;
+  private postMaterial: THREE.MeshStandardMaterial;
+  private params: Required<TrainingDummyParams>;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: InstanceType<RAPIER["Collider"]> | null = null;
+  private world: InstanceType<RAPIER["World"]> | null = null;
+  private combat: CombatSystem | null = null;
+  private hurtbox: Hurtbox;
+
+  // Tilt away from hits, as a 2D spring on the ground plane (x, z)
+  private tilt = new THREE.Vector2();
+  private tiltVelocity = new THREE.Vector2();
+  private flashTime: number = 0;
+  private totalDamage: number = 0;
+  private hitCount: number = 0;
+
+  constructor(params: TrainingDummyParams = {}) {
+    const { name = "Dummy", position = [0, 0, 0], rotation = 0 } = params;
+    this.params = { name, position, rotation };
+
+    this.group = new THREE.Group();
+    this.group.name = name;
+    this.group.position.set(position[0], position[1], position[2]);
+    this.group.rotation.y = rotation;
+
+    // Tilts around the base of the post
+    this.pivot = new THREE.Group();
+    this.group.add(this.pivot);
+
+    this.postMaterial = new THREE.MeshStandardMaterial({ color: 0x6b4a2b, roughness: 0.9 });
+    this.bodyMaterial = new THREE.MeshStandardMaterial({
+      color: 0xc8a46a,
+      roughness: 0.8,
+      emissive: FLASH_COLOR,
+      emissiveIntensity: 0,
+    });
+
+    const postGeometry = new THREE.CylinderGeometry(0.06, 0.06, POST_HEIGHT, 8);
+    const bodyGeometry = new THREE.CapsuleGeometry(BODY_RADIUS, 0.5, 4, 12);
+    const headGeometry = new THREE.SphereGeometry(0.18, 16, 12);
+    this.geometries.push(postGeometry, bodyGeometry, headGeometry);
+
+    const post = new THREE.Mesh(postGeometry, this.postMaterial);
+    post.position.y = POST_HEIGHT / 2;
+    const body = new THREE.Mesh(bodyGeometry, this.bodyMaterial);
+    body.position.y = 1.1;
+    const head = new THREE.Mesh(headGeometry, this.bodyMaterial);
+    head.position.y = 1.75;
+
+    [post, body, head].forEach((mesh) => {
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      this.pivot.add(mesh);
+    });
+
+    this.hurtbox = new Hurtbox(this);
+    this.hurtbox.onHit((event) => this.handleHit(event));
+  }
+
+  /**
+   * Create the fixed capsule and register it as the dummy's hurtbox
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    combat: CombatSystem
+  ): void {
+    if (this.rigidBody) {
+      console.warn("Dummy physics already added:", this.params.name);
+      return;
+    }
+
+    const [x, y, z] = this.params.position;
+    const halfHeight = (POST_HEIGHT + 0.2) / 2 - BODY_RADIUS;
+    this.rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.fixed().setTranslation(x, y + halfHeight + BODY_RADIUS, z)
+    );
+    this.collider = world.createCollider(
+      RAPIER.ColliderDesc.capsule(halfHeight, BODY_RADIUS),
+      this.rigidBody
+    );
+    this.world = world;
+    this.combat = combat;
+
+    combat.getEvents().setOwner(this.collider, this);
+    combat.addHurtbox(this.hurtbox, this.collider);
+
+    console.log("Training dummy added:", this.params.name);
+  }
+
+  private handleHit(event: HitEvent): void {
+    this.totalDamage += event.attack.damage;
+    this.hitCount++;
+    this.flashTime = FLASH_DURATION;
+
+    // Knock the top away from the attacker, into the dummy's local frame
+    const impulse = WOBBLE_IMPULSE + event.attack.knockback * 0.5;
+    const local = event.direction.clone().applyAxisAngle(
+      THREE.Object3D.DEFAULT_UP,
+      -this.params.rotation
+    );
+    this.tiltVelocity.x += local.x * impulse;
+    this.tiltVelocity.y += local.z * impulse;
+  }
+
+  /**
+   * Animate the wobble and hit flash
+   */
+  update(delta: number): void {
+    // Damped spring back to upright
+    this.tiltVelocity.x -=
+      (WOBBLE_STIFFNESS * this.tilt.x + WOBBLE_DAMPING * this.tiltVelocity.x) * delta;
+    this.tiltVelocity.y -=
+      (WOBBLE_STIFFNESS * this.tilt.y + WOBBLE_DAMPING * this.tiltVelocity.y) * delta;
+    this.tilt.addScaledVector(this.tiltVelocity, delta);
+    this.tilt.clampLength(0, MAX_TILT);
+
+    // Tilting towards +x is a rotation around -z, towards +z around +x
+    this.pivot.rotation.set(this.tilt.y, 0, -this.tilt.x);
+
+    this.flashTime = Math.max(this.flashTime - delta, 0);
+    this.bodyMaterial.emissiveIntensity = this.flashTime / FLASH_DURATION;
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<TrainingDummyParams> {
+    return { ...this.params, position: [...this.params.position] };
+  }
+
+  getMesh(): THREE.Group {
+    return this.group;
+  }
+
+  getHurtbox(): Hurtbox {
+    return this.hurtbox;
+  }
+
+  getTotalDamage(): number {
+    return this.totalDamage;
+  }
+
+  getHitCount(): number {
+    return this.hitCount;
+  }
+
+  /**
+   * Clear the damage total and hit count
+   */
+  reset(): void {
+    this.totalDamage = 0;
+    this.hitCount = 0;
+  }
+
+  dispose(): void {
+    if (this.collider && this.combat) {
+      this.combat.removeCollider(this.collider);
+      this.combat.getEvents().removeCollider(this.collider);
+    }
+    if (this.rigidBody && this.world) {
+      this.world.removeRigidBody(this.rigidBody);
+    }
+    this.rigidBody = null;
+    this.collider = null;
+    this.hurtbox.dispose();
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.bodyMaterial.dispose();
+    this.postMaterial.dispose();
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,287 @@
+import * as THREE from "three";
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+
+export type TriggerShape = "box" | "sphere" | "capsule";
+
+export interface TriggerEvent {
+  trigger: TriggerVolume;
+  /** The tagged collider that crossed the volume */
+  collider: Collider;
+  /** Owner registered for that collider (e.g. the CharacterController) */
+  owner: unknown;
+}
+
+export type TriggerListener = (event: TriggerEvent) => void;
+
+export interface TriggerVolumeParams {
+  name?: string;
+  shape?: TriggerShape;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  /** Full extents of the box */
+  size?: [number, number, number];
+  /** Sphere / capsule radius */
+  radius?: number;
+  /** Length of the capsule's straight section, like CharacterController.capsuleHeight */
+  height?: number;
+  /** Only colliders with one of these tags fire the trigger */
+  tags?: string[];
+  /** Fire onEnter only the first time */
+  once?: boolean;
+  onEnter?: TriggerListener;
+  onExit?: TriggerListener;
+}
+
+const HELPER_IDLE_COLOR = 0xffcc00;
+const HELPER_OCCUPIED_COLOR = 0x00ff88;
+
+export class TriggerVolume {
+  private params: Required<Omit<TriggerVolumeParams, "onEnter" | "onExit">>;
+  private helper: THREE.Mesh;
+  private helperMaterial: THREE.MeshBasicMaterial;
+  private rigidBody: InstanceType<RAPIER["RigidBody"]> | null = null;
+  private collider: Collider | null = null;
+  private events: PhysicsEventBus | null = null;
+  private world: InstanceType<RAPIER["World"]> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private enterListeners = new Set<TriggerListener>();
+  private exitListeners = new Set<TriggerListener>();
+  // Collider handles inside the volume, grouped by owner (or by handle if unowned)
+  private occupants = new Map<unknown, Set<number>>();
+  private fired: boolean = false;
+
+  constructor(params: TriggerVolumeParams = {}) {
+    const {
+      name = "Trigger",
+      shape = "box",
+      position = [0, 0, 0],
+      rotation = [0, 0, 0],
+      size = [2, 2, 2],
+      radius = 1,
+      height = 1,
+      tags = ["player"],
+      once = false,
+      onEnter,
+      onExit,
+    } = params;
+
+    this.params = { name, shape, position, rotation, size, radius, height, tags, once };
+    if (onEnter) this.enterListeners.add(onEnter);
+    if (onExit) this.exitListeners.add(onExit);
+
+    // Wireframe helper, only visible through the Rapier debug overlay
+    this.helperMaterial = new THREE.MeshBasicMaterial({
+      color: HELPER_IDLE_COLOR,
+      wireframe: true,
+      transparent: true,
+      opacity: 0.6,
+      depthWrite: false,
+    });
+    this.helper = new THREE.Mesh(this.createHelperGeometry(), this.helperMaterial);
+    this.helper.name = `${name} (trigger)`;
+    this.helper.position.set(position[0], position[1], position[2]);
+    this.helper.rotation.set(rotation[0], rotation[1], rotation[2]);
+  }
+
+  private createHelperGeometry(): THREE.BufferGeometry {
+    const { shape, size, radius, height } = this.params;
+    switch (shape) {
+      case "sphere":
+        return new THREE.SphereGeometry(radius, 16, 12);
+      case "capsule":
+        return new THREE.CapsuleGeometry(radius, height, 4, 12);
+      default:
+        return new THREE.BoxGeometry(size[0], size[1], size[2]);
+    }
+  }
+
+  /**
+   * Create the sensor collider and start listening for intersections
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    events: PhysicsEventBus
+  ): void {
+    if (this.rigidBody) {
+      console.warn("Trigger physics already added:", this.params.name);
+      return;
+    }
+
+    const { shape, size, radius, height, position } = this.params;
+    const quaternion = this.helper.quaternion;
+
+    this.rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.fixed()
+        .setTranslation(position[0], position[1], position[2])
+        .setRotation({
+          x: quaternion.x,
+          y: quaternion.y,
+          z: quaternion.z,
+          w: quaternion.w,
+        })
+    );
+
+    let colliderDesc: InstanceType<RAPIER["ColliderDesc"]>;
+    switch (shape) {
+      case "sphere":
+        colliderDesc = RAPIER.ColliderDesc.ball(radius);
+        break;
+      case "capsule":
+        colliderDesc = RAPIER.ColliderDesc.capsule(height / 2, radius);
+        break;
+      default:
+        colliderDesc = RAPIER.ColliderDesc.cuboid(size[0] / 2, size[1] / 2, size[2] / 2);
+    }
+
+    // Fixed sensors only see dynamic bodies by default; also catch kinematic ones
+    colliderDesc
+      .setSensor(true)
+      .setActiveCollisionTypes(
+        RAPIER.ActiveCollisionTypes.DEFAULT |
+          RAPIER.ActiveCollisionTypes.KINEMATIC_FIXED
+      );
+
+    this.collider = world.createCollider(colliderDesc, this.rigidBody);
+    this.world = world;
+    this.events = events;
+
+    events.setOwner(this.collider, this);
+    this.unsubscribers.push(
+      events.on(this.collider, "collisionStart", (event) => {
+        if (this.matchesTags(event.other)) {
+          this.handleEnter(event.other, event.otherOwner);
+        }
+      }),
+      events.on(this.collider, "collisionEnd", (event) => {
+        this.handleExit(event.other, event.otherOwner);
+      })
+    );
+
+    console.log("Trigger volume added:", this.params.name, shape);
+  }
+
+  private matchesTags(collider: Collider): boolean {
+    return this.params.tags.some((tag) => this.events!.hasTag(collider, tag));
+  }
+
+  private handleEnter(collider: Collider, owner: unknown): void {
+    const key = owner ?? collider.handle;
+    let handles = this.occupants.get(key);
+    if (!handles) {
+      handles = new Set();
+      this.occupants.set(key, handles);
+    }
+
+    // A rebuilt collider (e.g. crouch resize) replacing one that was inside
+    // isn't a new entry; the removed one never reports an exit
+    const wasInside = handles.size > 0;
+    handles.add(collider.handle);
+    this.pruneRemoved(handles);
+    if (wasInside) return;
+
+    this.updateHelperColor();
+    if (this.params.once && this.fired) return;
+    this.fired = true;
+
+    const event: TriggerEvent = { trigger: this, collider, owner };
+    this.enterListeners.forEach((listener) => listener(event));
+  }
+
+  private handleExit(collider: Collider, owner: unknown): void {
+    const key = owner ?? collider.handle;
+    const handles = this.occupants.get(key);
+    if (!handles || !handles.delete(collider.handle)) return;
+    if (this.pruneRemoved(handles) > 0) return;
+
+    this.occupants.delete(key);
+    this.updateHelperColor();
+
+    const event: TriggerEvent = { trigger: this, collider, owner };
+    this.exitListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Drop colliders that were removed from the world without an exit event
+   */
+  private pruneRemoved(handles: Set<number>): number {
+    handles.forEach((handle) => {
+      if (!this.events?.getLiveCollider(handle)) {
+        handles.delete(handle);
+      }
+    });
+    return handles.size;
+  }
+
+  private updateHelperColor(): void {
+    this.helperMaterial.color.setHex(
+      this.occupants.size > 0 ? HELPER_OCCUPIED_COLOR : HELPER_IDLE_COLOR
+    );
+  }
+
+  /**
+   * Add an enter / exit listener. Returns an unsubscribe function.
+   */
+  addListener(type: "enter" | "exit", listener: TriggerListener): () => void {
+    const listeners = type === "enter" ? this.enterListeners : this.exitListeners;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  isOccupied(): boolean {
+    return this.occupants.size > 0;
+  }
+
+  /**
+   * Whether any collider of owner (e.g. the CharacterController) is inside
+   */
+  contains(owner: unknown): boolean {
+    return this.occupants.has(owner);
+  }
+
+  /**
+   * Allow a once-only trigger to fire again
+   */
+  reset(): void {
+    this.fired = false;
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<Omit<TriggerVolumeParams, "onEnter" | "onExit">> {
+    return { ...this.params, tags: [...this.params.tags] };
+  }
+
+  getHelper(): THREE.Mesh {
+    return this.helper;
+  }
+
+  getCollider(): Collider | null {
+    return this.collider;
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.collider && this.events) {
+      this.events.removeCollider(this.collider);
+    }
+    if (this.rigidBody && this.world) {
+      this.world.removeRigidBody(this.rigidBody);
+    }
+    this.rigidBody = null;
+    this.collider = null;
+    this.enterListeners.clear();
+    this.exitListeners.clear();
+    this.occupants.clear();
+    this.helper.removeFromParent();
+    this.helper.geometry.dispose();
+    this.helperMaterial.dispose();
+  }
+}
@@ -0,0 +1,155 @@
+import * as THREE from "three";
+import { TriggerVolume } from "./TriggerVolume";
+import type { PhysicsEventBus } from "../physics/PhysicsEvents";
+
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+
+export interface UpdraftVolumeParams {
+  name?: string;
+  /** Base of the column, on the ground */
+  position?: [number, number, number];
+  /** Full extents of the column, which stands on position */
+  size?: [number, number, number];
+  /** Upward acceleration (m/s²) on a glider inside; lifts once it beats gravity */
+  strength?: number;
+  /** Rise speed (m/s) it accelerates a glider up to */
+  maxSpeed?: number;
+}
+
+// Drifting outlines that show which way the air goes
+const STREAK_COUNT = 4;
+const STREAK_SPEED = 3;
+
+/**
+ * Column of rising air for gliders. The character asks affects() for each
+ * updraft while gliding and takes the lift itself.
+ */
+export class UpdraftVolume {
+  private params: Required<UpdraftVolumeParams>;
+  private group: THREE.Group;
+  private columnGeometry: THREE.BoxGeometry;
+  private streakGeometry: THREE.BufferGeometry;
+  private columnMaterial: THREE.MeshBasicMaterial;
+  private streakMaterial: THREE.LineBasicMaterial;
+  private streaks: THREE.LineLoop[] = [];
+  private trigger: TriggerVolume;
+
+  constructor(params: UpdraftVolumeParams = {}) {
+    const {
+      name = "Updraft",
+      position = [0, 0, 0],
+      size = [4, 20, 4],
+      strength = 20,
+      maxSpeed = 6,
+    } = params;
+    this.params = { name, position, size, strength, maxSpeed };
+
+    this.group = new THREE.Group();
+    this.group.name = name;
+    this.group.position.set(position[0], position[1], position[2]);
+
+    this.columnMaterial = new THREE.MeshBasicMaterial({
+      color: 0xbfe6ff,
+      transparent: true,
+      opacity: 0.08,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+    this.columnGeometry = new THREE.BoxGeometry(size[0], size[1], size[2]);
+    const column = new THREE.Mesh(this.columnGeometry, this.columnMaterial);
+    column.position.y = size[1] / 2;
+    this.group.add(column);
+
+    const [halfX, halfZ] = [size[0] / 2, size[2] / 2];
+    this.streakGeometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(-halfX, 0, -halfZ),
+      new THREE.Vector3(halfX, 0, -halfZ),
+      new THREE.Vector3(halfX, 0, halfZ),
+      new THREE.Vector3(-halfX, 0, halfZ),
+    ]);
+    this.streakMaterial = new THREE.LineBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.35,
+    });
+    for (let i = 0; i < STREAK_COUNT; i++) {
+      const streak = new THREE.LineLoop(this.streakGeometry, this.streakMaterial);
+      streak.position.y = (size[1] * i) / STREAK_COUNT;
+      this.streaks.push(streak);
+      this.group.add(streak);
+    }
+
+    this.trigger = new TriggerVolume({
+      name: `${name} (updraft)`,
+      position: [position[0], position[1] + size[1] / 2, position[2]],
+      size,
+      tags: ["player"],
+    });
+  }
+
+  /**
+   * Create the trigger sensor
+   * Must be called after PhysicsManager is initialized
+   */
+  addPhysics(
+    RAPIER: RAPIER,
+    world: InstanceType<RAPIER["World"]>,
+    events: PhysicsEventBus
+  ): void {
+    this.trigger.addPhysics(RAPIER, world, events);
+  }
+
+  /**
+   * Whether owner (e.g. the CharacterController) is inside the column
+   */
+  affects(owner: unknown): boolean {
+    return this.trigger.contains(owner);
+  }
+
+  /**
+   * Move the streaks up the column
+   */
+  update(delta: number): void {
+    const height = this.params.size[1];
+    this.streaks.forEach((streak) => {
+      streak.position.y = (streak.position.y + STREAK_SPEED * delta) % height;
+    });
+  }
+
+  getStrength(): number {
+    return this.params.strength;
+  }
+
+  getMaxSpeed(): number {
+    return this.params.maxSpeed;
+  }
+
+  getName(): string {
+    return this.params.name;
+  }
+
+  getParams(): Required<UpdraftVolumeParams> {
+    return {
+      ...this.params,
+      position: [...this.params.position],
+      size: [...this.params.size],
+    };
+  }
+
+  getMesh(): THREE.Group {
+    return this.group;
+  }
+
+  getHelper(): THREE.Mesh {
+    return this.trigger.getHelper();
+  }
+
+  dispose(): void {
+    this.trigger.dispose();
+    this.columnGeometry.dispose();
+    this.streakGeometry.dispose();
+    this.columnMaterial.dispose();
+    this.streakMaterial.dispose();
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,297 @@
+import * as Tweakpane from "tweakpane";
+import { CharacterController } from "../character/CharacterController";
+import type { MovementBackend } from "../character/CharacterMotor";
+
+export interface CharacterMovementControlParams {
+  movementBackend: MovementBackend;
+  maxClimbAngle: number;
+  minSlideAngle: number;
+  autostepHeight: number;
+  autostepMinWidth: number;
+  snapToGround: number;
+  rootMotionRoll: boolean;
+  rootMotionAttack: boolean;
+  coyoteTime: number;
+  jumpBufferTime: number;
+  jumpCutMultiplier: number;
+  wallRunDuration: number;
+  wallRunMinAngle: number;
+  wallRunMaxAngle: number;
+  wallJumpAngle: number;
+  wallRunCooldown: number;
+  maxWalkableAngle: number;
+  uphillSpeedFactor: number;
+  slideMaxSpeed: number;
+}
+
+export class CharacterMovementControls {
+  private folder: Tweakpane.FolderApi;
+  private params: CharacterMovementControlParams;
+  private characterController: CharacterController;
+
+  constructor(
+    folder: Tweakpane.FolderApi,
+    characterController: CharacterController,
+    initialParams: CharacterMovementControlParams
+  ) {
+    this.folder = folder;
+    this.characterController = characterController;
+    this.params = { ...initialParams };
+
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    // Current locomotion state (polled, read-only)
+    const controller = this.characterController;
+    const stateMonitor = {
+      get state(): string {
+        return controller.getStatePath();
+      },
+    };
+    this.folder.addBinding(stateMonitor, "state", {
+      label: "State",
+      readonly: true,
+      interval: 100,
+    });
+
+    // Backend
+    this.folder
+      .addBinding(this.params, "movementBackend", {
+        label: "Backend",
+        options: { Dynamic: "dynamic", Kinematic: "kinematic" },
+      })
+      .on("change", (ev: { value: MovementBackend }) => {
+        this.characterController.setMovementBackend(ev.value);
+      });
+
+    // Root motion (authored clip movement instead of scripted velocity)
+    const rootMotionFolder = this.folder.addFolder({
+      title: "Root Motion",
+      expanded: false,
+    });
+
+    rootMotionFolder
+      .addBinding(this.params, "rootMotionRoll", { label: "Roll" })
+      .on("change", (ev: { value: boolean }) => {
+        this.characterController.setRootMotionEnabled("roll", ev.value);
+      });
+
+    rootMotionFolder
+      .addBinding(this.params, "rootMotionAttack", { label: "Heavy Attack" })
+      .on("change", (ev: { value: boolean }) => {
+        this.characterController.setRootMotionEnabled("swordAttackAlt", ev.value);
+      });
+
+    // Jump timing windows
+    const jumpFolder = this.folder.addFolder({
+      title: "Jump",
+      expanded: false,
+    });
+
+    const updateJump = () =>
+      this.characterController.setMovementSettings({
+        coyoteTime: this.params.coyoteTime,
+        jumpBufferTime: this.params.jumpBufferTime,
+        jumpCutMultiplier: this.params.jumpCutMultiplier,
+      });
+
+    jumpFolder
+      .addBinding(this.params, "coyoteTime", {
+        label: "Coyote Time (s)",
+        min: 0,
+        max: 0.5,
+        step: 0.01,
+        hint: "Jumping still works this long after walking off an edge",
+      })
+      .on("change", updateJump);
+
+    jumpFolder
+      .addBinding(this.params, "jumpBufferTime", {
+        label: "Jump Buffer (s)",
+        min: 0,
+        max: 0.5,
+        step: 0.01,
+        hint: "A press this early still jumps on landing",
+      })
+      .on("change", updateJump);
+
+    jumpFolder
+      .addBinding(this.params, "jumpCutMultiplier", {
+        label: "Jump Cut",
+        min: 0,
+        max: 1,
+        step: 0.05,
+        hint: "Rising speed kept when Space is released early (1 = no cut)",
+      })
+      .on("change", updateJump);
+
+    // Wall run and wall jump
+    const wallRunFolder = this.folder.addFolder({
+      title: "Wall Run",
+      expanded: false,
+    });
+
+    const updateWallRun = () =>
+      this.characterController.setMovementSettings({
+        wallRunDuration: this.params.wallRunDuration,
+        wallRunMinAngle: this.params.wallRunMinAngle,
+        wallRunMaxAngle: this.params.wallRunMaxAngle,
+        wallJumpAngle: this.params.wallJumpAngle,
+        wallRunCooldown: this.params.wallRunCooldown,
+      });
+
+    wallRunFolder
+      .addBinding(this.params, "wallRunDuration", {
+        label: "Duration (s)",
+        min: 0.1,
+        max: 5,
+        step: 0.1,
+      })
+      .on("change", updateWallRun);
+
+    wallRunFolder
+      .addBinding(this.params, "wallRunMinAngle", {
+        label: "Min Wall (°)",
+        min: 45,
+        max: 90,
+        step: 1,
+      })
+      .on("change", updateWallRun);
+
+    wallRunFolder
+      .addBinding(this.params, "wallRunMaxAngle", {
+        label: "Max Approach (°)",
+        min: 0,
+        max: 89,
+        step: 1,
+        hint: "Largest angle between the run direction and the wall",
+      })
+      .on("change", updateWallRun);
+
+    wallRunFolder
+      .addBinding(this.params, "wallJumpAngle", {
+        label: "Jump Angle (°)",
+        min: 0,
+        max: 90,
+        step: 1,
+        hint: "Away from the wall: 0 = along it, 90 = straight out",
+      })
+      .on("change", updateWallRun);
+
+    wallRunFolder
+      .addBinding(this.params, "wallRunCooldown", {
+        label: "Cooldown (s)",
+        min: 0,
+        max: 3,
+        step: 0.1,
+      })
+      .on("change", updateWallRun);
+
+    // Walking up slopes and sliding down steep ones
+    const slopeFolder = this.folder.addFolder({
+      title: "Slopes",
+      expanded: false,
+    });
+
+    const updateSlopes = () =>
+      this.characterController.setMovementSettings({
+        maxWalkableAngle: this.params.maxWalkableAngle,
+        uphillSpeedFactor: this.params.uphillSpeedFactor,
+        slideMaxSpeed: this.params.slideMaxSpeed,
+      });
+
+    slopeFolder
+      .addBinding(this.params, "maxWalkableAngle", {
+        label: "Max Walkable (°)",
+        min: 10,
+        max: 80,
+        step: 1,
+        hint: "Steeper ground makes the character slide",
+      })
+      .on("change", updateSlopes);
+
+    slopeFolder
+      .addBinding(this.params, "uphillSpeedFactor", {
+        label: "Uphill Speed",
+        min: 0.1,
+        max: 1,
+        step: 0.05,
+        hint: "Speed multiplier straight up the steepest walkable slope",
+      })
+      .on("change", updateSlopes);
+
+    slopeFolder
+      .addBinding(this.params, "slideMaxSpeed", {
+        label: "Slide Speed (m/s)",
+        min: 1,
+        max: 20,
+        step: 0.5,
+      })
+      .on("change", updateSlopes);
+
+    // Kinematic backend settings
+    const kinematicFolder = this.folder.addFolder({
+      title: "Kinematic",
+      expanded: false,
+    });
+
+    const updateSettings = () =>
+      this.characterController.setMovementSettings({
+        maxClimbAngle: this.params.maxClimbAngle,
+        minSlideAngle: this.params.minSlideAngle,
+        autostepHeight: this.params.autostepHeight,
+        autostepMinWidth: this.params.autostepMinWidth,
+        snapToGround: this.params.snapToGround,
+      });
+
+    kinematicFolder
+      .addBinding(this.params, "maxClimbAngle", {
+        label: "Max Climb (°)",
+        min: 0,
+        max: 89,
+        step: 1,
+      })
+      .on("change", updateSettings);
+
+    kinematicFolder
+      .addBinding(this.params, "minSlideAngle", {
+        label: "Min Slide (°)",
+        min: 0,
+        max: 89,
+        step: 1,
+      })
+      .on("change", updateSettings);
+
+    kinematicFolder
+      .addBinding(this.params, "autostepHeight", {
+        label: "Step Height",
+        min: 0,
+        max: 1,
+        step: 0.05,
+      })
+      .on("change", updateSettings);
+
+    kinematicFolder
+      .addBinding(this.params, "autostepMinWidth", {
+        label: "Step Width",
+        min: 0,
+        max: 1,
+        step: 0.05,
+      })
+      .on("change", updateSettings);
+
+    kinematicFolder
+      .addBinding(this.params, "snapToGround", {
+        label: "Snap to Ground",
+        min: 0,
+        max: 1,
+        step: 0.05,
+      })
+      .on("change", updateSettings);
+  }
+
+  getParams(): CharacterMovementControlParams {
+    return { ...this.params };
+  }
+}
@@ -0,0 +1,87 @@
+import * as Tweakpane from "tweakpane";
+import { PhysicsManager } from "../physics/PhysicsManager";
+
+export interface PhysicsControlParams {
+  paused: boolean;
+  timeScale: number;
+  stepRate: number;
+  substeps: number;
+}
+
+export class PhysicsControls {
+  private folder: Tweakpane.FolderApi;
+  private params: PhysicsControlParams;
+  private physicsManager: PhysicsManager;
+
+  constructor(
+    folder: Tweakpane.FolderApi,
+    physicsManager: PhysicsManager,
+    initialParams: PhysicsControlParams
+  ) {
+    this.folder = folder;
+    this.physicsManager = physicsManager;
+    this.params = { ...initialParams };
+
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    // Pause / resume
+    this.folder
+      .addBinding(this.params, "paused", {
+        label: "Paused",
+      })
+      .on("change", (ev: { value: boolean }) => {
+        if (ev.value) {
+          this.physicsManager.pause();
+        } else {
+          this.physicsManager.resume();
+        }
+      });
+
+    // Advance a single fixed step (pauses first)
+    this.folder.addButton({ title: "Step Once" }).on("click", () => {
+      this.physicsManager.stepOnce();
+      this.params.paused = true;
+      this.folder.refresh();
+    });
+
+    // Time Scale (slow motion below 1)
+    this.folder
+      .addBinding(this.params, "timeScale", {
+        label: "Time Scale",
+        min: 0,
+        max: 2,
+        step: 0.05,
+      })
+      .on("change", (ev: { value: number }) => {
+        this.physicsManager.setTimeScale(ev.value);
+      });
+
+    // Fixed step rate (Hz)
+    this.folder
+      .addBinding(this.params, "stepRate", {
+        label: "Step Rate (Hz)",
+        options: { "30": 30, "60": 60, "120": 120, "240": 240 },
+      })
+      .on("change", (ev: { value: number }) => {
+        this.physicsManager.setFixedTimeStep(1 / ev.value);
+      });
+
+    // Substeps per fixed step
+    this.folder
+      .addBinding(this.params, "substeps", {
+        label: "Substeps",
+        min: 1,
+        max: 8,
+        step: 1,
+      })
+      .on("change", (ev: { value: number }) => {
+        this.physicsManager.setSubsteps(ev.value);
+      });
+  }
+
+  getParams(): PhysicsControlParams {
+    return { ...this.params };
+  }
+}
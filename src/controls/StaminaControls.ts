@@ -0,0 +1,159 @@
+import * as Tweakpane from "tweakpane";
+import type { Stamina } from "../character/Stamina";
+
+export interface StaminaControlParams {
+  maxStamina: number;
+  sprintCost: number;
+  rollCost: number;
+  climbCost: number;
+  glideCost: number;
+  regenRate: number;
+  regenDelay: number;
+  recoveryThreshold: number;
+}
+
+export class StaminaControls {
+  private folder: Tweakpane.FolderApi;
+  private params: StaminaControlParams;
+  private stamina: Stamina;
+
+  constructor(
+    folder: Tweakpane.FolderApi,
+    stamina: Stamina,
+    initialParams: StaminaControlParams
+  ) {
+    this.folder = folder;
+    this.stamina = stamina;
+    this.params = { ...initialParams };
+
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    // Current stamina (polled, read-only)
+    const stamina = this.stamina;
+    const monitor = {
+      get stamina(): number {
+        return stamina.getCurrent();
+      },
+      get exhausted(): boolean {
+        return stamina.isExhausted();
+      },
+    };
+    this.folder.addBinding(monitor, "stamina", {
+      label: "Stamina",
+      readonly: true,
+      view: "graph",
+      min: 0,
+      max: this.params.maxStamina,
+      interval: 100,
+    });
+    this.folder.addBinding(monitor, "exhausted", {
+      label: "Exhausted",
+      readonly: true,
+      interval: 100,
+    });
+
+    this.folder
+      .addBinding(this.params, "maxStamina", {
+        label: "Max",
+        min: 10,
+        max: 300,
+        step: 5,
+      })
+      .on("change", (ev: { value: number }) => {
+        this.stamina.configure({ maxStamina: ev.value });
+      });
+
+    // Costs: per second for held actions, per use for roll
+    const costsFolder = this.folder.addFolder({
+      title: "Costs",
+      expanded: false,
+    });
+
+    const updateCosts = () =>
+      this.stamina.configure({
+        costs: {
+          sprint: this.params.sprintCost,
+          roll: this.params.rollCost,
+          climb: this.params.climbCost,
+          glide: this.params.glideCost,
+        },
+      });
+
+    costsFolder
+      .addBinding(this.params, "sprintCost", {
+        label: "Sprint (/s)",
+        min: 0,
+        max: 100,
+        step: 1,
+      })
+      .on("change", updateCosts);
+
+    costsFolder
+      .addBinding(this.params, "rollCost", {
+        label: "Roll",
+        min: 0,
+        max: 100,
+        step: 1,
+      })
+      .on("change", updateCosts);
+
+    costsFolder
+      .addBinding(this.params, "climbCost", {
+        label: "Climb (/s)",
+        min: 0,
+        max: 100,
+        step: 1,
+      })
+      .on("change", updateCosts);
+
+    costsFolder
+      .addBinding(this.params, "glideCost", {
+        label: "Glide (/s)",
+        min: 0,
+        max: 100,
+        step: 1,
+      })
+      .on("change", updateCosts);
+
+    // Regen
+    this.folder
+      .addBinding(this.params, "regenRate", {
+        label: "Regen (/s)",
+        min: 0,
+        max: 100,
+        step: 1,
+      })
+      .on("change", (ev: { value: number }) => {
+        this.stamina.configure({ regenRate: ev.value });
+      });
+
+    this.folder
+      .addBinding(this.params, "regenDelay", {
+        label: "Regen Delay (s)",
+        min: 0,
+        max: 5,
+        step: 0.1,
+      })
+      .on("change", (ev: { value: number }) => {
+        this.stamina.configure({ regenDelay: ev.value });
+      });
+
+    this.folder
+      .addBinding(this.params, "recoveryThreshold", {
+        label: "Recover At",
+        min: 0,
+        max: 1,
+        step: 0.05,
+        hint: "Fraction of max stamina that ends exhaustion",
+      })
+      .on("change", (ev: { value: number }) => {
+        this.stamina.configure({ recoveryThreshold: ev.value });
+      });
+  }
+
+  getParams(): StaminaControlParams {
+    return { ...this.params };
+  }
+}
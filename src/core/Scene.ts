@@ -4,17 +4,30 @@ import { CSM } from "three/examples/jsm/csm/CSM.js";
 import { HorizonSky } from "../components/HorizonSky";
 import { Skybox } from "../components/Skybox";
 import { Floor } from "../components/Floor";
+import { Terrain } from "../components/Terrain";
 import { Building } from "../components/Building";
+import { LevelGeometry } from "../components/LevelGeometry";
+import { TriggerVolume } from "../components/TriggerVolume";
+import { Checkpoint } from "../components/Checkpoint";
+import { UpdraftVolume } from "../components/UpdraftVolume";
+import { MovingPlatform } from "../components/MovingPlatform";
+import { TrainingDummy } from "../components/TrainingDummy";
 import { ControlsManager } from "../controls/ControlsManager";
 import { HorizonSkyControls } from "../controls/HorizonSkyControls";
 import { SkyControls } from "../controls/SkyControls";
 import { FloorControls } from "../controls/FloorControls";
 import { LightsControls } from "../controls/LightsControls";
 import { CSMControls } from "../controls/CSMControls";
+import { PhysicsControls } from "../controls/PhysicsControls";
+import { CharacterMovementControls } from "../controls/CharacterMovementControls";
+import { StaminaControls } from "../controls/StaminaControls";
 import { CameraControls, type CameraMode } from "../controls/CameraControls";
 import { PhysicsManager } from "../physics/PhysicsManager";
 import { RapierDebugRenderer } from "../physics/RapierDebugRenderer";
+import { CombatSystem } from "../combat/CombatSystem";
 import { CharacterController } from "../character/CharacterController";
+import type { LevelData, Vec3 } from "../level/LevelSchema";
+import { downloadLevel, serializeLevel } from "../level/LevelSerializer";
 
 export class GameScene {
   private scene: THREE.Scene;
@@ -23,12 +36,23 @@ export class GameScene {
   private controls: OrbitControls;
   private horizonSky: HorizonSky;
   private skybox: Skybox;
-  private floor: Floor;
-  private building: Building;
+  private level: LevelData;
+  private floor: Floor | null = null;
+  private terrain: Terrain | null = null;
+  private terrainReady: Promise<void> = Promise.resolve();
+  private buildings: Building[] = [];
+  private levelGeometry: LevelGeometry[] = [];
+  private levelGeometryReady: Promise<void>;
+  private triggers: TriggerVolume[] = [];
+  private platforms: MovingPlatform[] = [];
+  private dummies: TrainingDummy[] = [];
+  private checkpoints: Checkpoint[] = [];
+  private updrafts: UpdraftVolume[] = [];
   private ambientLight: THREE.AmbientLight;
   private directionalLight: THREE.DirectionalLight;
   private controlsManager!: ControlsManager; // Initialized in setupControls()
   private physicsManager: PhysicsManager;
+  private combat: CombatSystem | null = null;
   private rapierDebugRenderer: RapierDebugRenderer;
   private characterController: CharacterController | null = null;
   private clock: THREE.Clock;
@@ -38,8 +62,10 @@ export class GameScene {
   private patchedMaterials: Map<THREE.Material, any> = new Map();
   private csmControls: CSMControls | null = null;
 
-  constructor(container: HTMLElement) {
-    console.log("GameScene constructor called");
+  constructor(container: HTMLElement, level: LevelData) {
+    console.log("GameScene constructor called for level:", level.name);
+
+    this.level = level;
 
     // Create scene
     this.scene = new THREE.Scene();
@@ -79,60 +105,133 @@ export class GameScene {
 
     // Create HorizonSky
     console.log("Creating HorizonSky...");
-    this.horizonSky = new HorizonSky({
-      topColor: "#0077ff",
-      bottomColor: "#ffffff",
-      offset: 33,
-      exponent: 0.6,
-      radius: 4000,
-    });
+    const { type: skyType, ...horizonSkyParams } = level.sky;
+    this.horizonSky = new HorizonSky(horizonSkyParams);
+    this.horizonSky.getMesh().visible = skyType === "horizon";
     this.scene.add(this.horizonSky.getMesh());
     console.log("HorizonSky added to scene");
 
     // Create Skybox
     console.log("Creating Skybox...");
     this.skybox = new Skybox();
-    this.skybox.setVisible(false); // Disabled by default, HorizonSky is enabled
+    this.skybox.setVisible(skyType === "skybox");
     this.scene.add(this.skybox.getMesh());
     console.log("Skybox added to scene");
 
     // Create floor
-    console.log("Creating floor...");
-    this.floor = new Floor({
-      size: 200,
-      position: [0, 0, 0],
-      textureScale: 400, // TILE_REFERENCE_SCALE
+    if (level.floor) {
+      console.log("Creating floor...");
+      this.floor = new Floor(level.floor);
+      this.scene.add(this.floor.getMesh());
+      console.log("Floor added to scene");
+    }
+
+    // Create heightmap terrain
+    if (level.terrain) {
+      console.log("Creating terrain...");
+      const terrain = new Terrain(level.terrain);
+      this.terrain = terrain;
+      this.scene.add(terrain.getMesh());
+      this.terrainReady = terrain.load().catch((error) => {
+        console.error("Error loading terrain heightmap:", error);
+      });
+      console.log("Terrain added to scene");
+    }
+
+    // Create buildings
+    console.log("Creating buildings...");
+    this.buildings = level.buildings.map((buildingData) => {
+      const building = new Building(buildingData);
+      this.scene.add(building.getMesh());
+      return building;
+    });
+    console.log(`${this.buildings.length} building(s) added to scene`);
+
+    // GLB props (colliders come from the GLB meshes)
+    console.log("Loading level geometry...");
+    this.levelGeometry = level.props.map(
+      (prop) =>
+        new LevelGeometry({
+          url: prop.url,
+          position: prop.position,
+          rotation: prop.rotation.map((deg) =>
+            THREE.MathUtils.degToRad(deg)
+          ) as Vec3,
+          scale: prop.scale,
+          defaultCollider: prop.collider,
+        })
+    );
+    this.levelGeometry.forEach((geometry) => this.scene.add(geometry.getRoot()));
+    this.levelGeometryReady = Promise.all(
+      this.levelGeometry.map((geometry) =>
+        geometry.load().catch((error) => {
+          console.error("Error loading level geometry:", error);
+        })
+      )
+    ).then(() => {
+      // Newly loaded materials need CSM patching
+      this.applyCSMToScene();
+    });
+
+    // Trigger volumes (invisible, drawn by the Rapier debug overlay)
+    this.triggers = level.triggers.map(
+      (triggerData) =>
+        new TriggerVolume({
+          ...triggerData,
+          rotation: triggerData.rotation.map((deg) =>
+            THREE.MathUtils.degToRad(deg)
+          ) as Vec3,
+        })
+    );
+
+    // Moving platforms (kinematic, advanced by the physics step)
+    this.platforms = level.platforms.map((platformData) => {
+      const platform = new MovingPlatform({
+        ...platformData,
+        rotationSpeed: THREE.MathUtils.degToRad(platformData.rotationSpeed),
+      });
+      this.scene.add(platform.getMesh());
+      return platform;
+    });
+
+    // Training dummies (hurtboxes for trying out attacks)
+    this.dummies = level.dummies.map((dummyData) => {
+      const dummy = new TrainingDummy({
+        ...dummyData,
+        rotation: THREE.MathUtils.degToRad(dummyData.rotation),
+      });
+      this.scene.add(dummy.getMesh());
+      return dummy;
+    });
+
+    // Checkpoints (the last one reached is where the player respawns)
+    this.checkpoints = level.checkpoints.map((checkpointData) => {
+      const checkpoint = new Checkpoint({
+        ...checkpointData,
+        rotation: THREE.MathUtils.degToRad(checkpointData.rotation),
+      });
+      checkpoint.onActivate(() => this.handleCheckpoint(checkpoint));
+      this.scene.add(checkpoint.getMesh());
+      return checkpoint;
     });
-    this.scene.add(this.floor.getMesh());
-    console.log("Floor added to scene");
-
-    // Create building (same as Map1.jsx)
-    console.log("Creating building...");
-    const floorPosition: [number, number, number] = [0, 0, 0];
-    const scale = 1;
-    const buildingHeight = 60 * scale;
-    const buildingPosition: [number, number, number] = [
-      floorPosition[0] - 30 * scale,
-      floorPosition[1] + buildingHeight / 2,
-      floorPosition[2] - 20 * scale,
-    ];
-
-    this.building = new Building({
-      scale: 1,
-      position: buildingPosition,
-      width: 18,
-      height: 60,
-      depth: 14,
+
+    // Updrafts (lift the character while gliding)
+    this.updrafts = level.updrafts.map((updraftData) => {
+      const updraft = new UpdraftVolume(updraftData);
+      this.scene.add(updraft.getMesh());
+      return updraft;
     });
-    this.scene.add(this.building.getMesh());
-    console.log("Building added to scene");
 
     // Add lighting for the floor (MeshStandardMaterial needs lights)
-    this.ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+    const { ambient, directional } = level.lights;
+    this.ambientLight = new THREE.AmbientLight(ambient.color, ambient.intensity);
     this.scene.add(this.ambientLight);
 
-    this.directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    this.directionalLight.position.set(5, 10, 5);
+    this.directionalLight = new THREE.DirectionalLight(
+      directional.color,
+      directional.intensity
+    );
+    this.directionalLight.position.set(...directional.position);
     this.directionalLight.castShadow = true;
 
     // Configure shadow camera
@@ -163,6 +262,15 @@ export class GameScene {
     // Initialize physics
     this.physicsManager = new PhysicsManager();
     this.rapierDebugRenderer = new RapierDebugRenderer(this.scene);
+    this.triggers.forEach((trigger) =>
+      this.rapierDebugRenderer.addHelper(trigger.getHelper())
+    );
+    this.checkpoints.forEach((checkpoint) =>
+      this.rapierDebugRenderer.addHelper(checkpoint.getHelper())
+    );
+    this.updrafts.forEach((updraft) =>
+      this.rapierDebugRenderer.addHelper(updraft.getHelper())
+    );
     this.clock = new THREE.Clock();
 
     // Enable debug renderer by default (can be toggled in controls)
@@ -179,23 +287,87 @@ export class GameScene {
   }
 
   private async initPhysics(): Promise<void> {
-    await this.physicsManager.init();
-
-    // Add physics to floor with terrain ready callback
-    this.floor.addPhysics(
-      this.physicsManager.getRAPIER(),
-      this.physicsManager.getWorld(),
-      () => {
-        console.log("Terrain ready, spawning character...");
-        this.spawnCharacter();
-      }
+    const [gx, gy, gz] = this.level.physics.gravity;
+    this.physicsManager.setFixedTimeStep(this.level.physics.fixedTimeStep);
+    this.physicsManager.setSubsteps(this.level.physics.substeps);
+    await this.physicsManager.init({ x: gx, y: gy, z: gz });
+
+    const RAPIER = this.physicsManager.getRAPIER();
+    const world = this.physicsManager.getWorld();
+
+    // Heightfield collider needs the heightmap data
+    await this.terrainReady;
+    this.terrain?.addPhysics(RAPIER, world);
+
+    // Add physics to floor
+    this.floor?.addPhysics(RAPIER, world);
+
+    // Add physics to buildings
+    this.buildings.forEach((building) => building.addPhysics(RAPIER, world));
+    this.watchBuildingImpacts();
+
+    // Add sensors for trigger volumes
+    const events = this.physicsManager.getEvents();
+    this.triggers.forEach((trigger) => trigger.addPhysics(RAPIER, world, events));
+    this.checkpoints.forEach((checkpoint) =>
+      checkpoint.addPhysics(RAPIER, world, events)
     );
+    this.updrafts.forEach((updraft) => updraft.addPhysics(RAPIER, world, events));
 
-    // Add physics to building
-    this.building.addPhysics(
-      this.physicsManager.getRAPIER(),
-      this.physicsManager.getWorld()
-    );
+    // Add kinematic bodies for moving platforms and drive them every physics step
+    this.platforms.forEach((platform) => {
+      platform.addPhysics(RAPIER, world, events);
+      this.physicsManager.addStepListener((dt) => platform.step(dt));
+    });
+
+    // Hitboxes find what they hit through the combat system
+    const combat = new CombatSystem(events);
+    this.combat = combat;
+    this.dummies.forEach((dummy) => dummy.addPhysics(RAPIER, world, combat));
+
+    // Add physics to level geometry once the GLBs are in, so snapping the
+    // spawn point to the ground can see them
+    await this.levelGeometryReady;
+    this.levelGeometry.forEach((geometry) => {
+      if (geometry.isLoaded()) {
+        geometry.addPhysics(RAPIER, world);
+      }
+    });
+
+    console.log("Level physics ready, spawning character...");
+    this.spawnCharacter();
+  }
+
+  /**
+   * Report the first hard contact after anything collides with a building
+   * to the building's impact listeners
+   */
+  private watchBuildingImpacts(): void {
+    const events = this.physicsManager.getEvents();
+
+    this.buildings.forEach((building) => {
+      const collider = building.getCollider();
+      if (!collider) return;
+
+      events.setOwner(collider, building, { contactForceThreshold: 50 });
+
+      // One report per contact, not one per step while something leans on it
+      const armed = new Set<number>();
+      events.onOwner(building, "collisionStart", (event) => {
+        armed.add(event.other.handle);
+      });
+      events.onOwner(building, "collisionEnd", (event) => {
+        armed.delete(event.other.handle);
+      });
+      events.onOwner(building, "contactForce", (event) => {
+        if (!armed.delete(event.other.handle)) return;
+        building.reportImpact({
+          force: event.totalForceMagnitude,
+          collider: event.other,
+          owner: event.otherOwner,
+        });
+      });
+    });
   }
 
   private updateCameraMode(): void {
@@ -222,6 +394,51 @@ export class GameScene {
     }
   }
 
+  /**
+   * Surface height at (x, z): terrain where it covers the point, otherwise
+   * the first collider hit by a ray cast down from high above
+   */
+  private getGroundHeightAt(x: number, z: number): number {
+    if (this.terrain?.isLoaded() && this.terrain.contains(x, z)) {
+      return this.terrain.getHeightAt(x, z);
+    }
+
+    const RAPIER = this.physicsManager.getRAPIER();
+    const rayTop = 1000;
+    const ray = new RAPIER.Ray({ x, y: rayTop, z }, { x: 0, y: -1, z: 0 });
+    const hit = this.physicsManager.getWorld().castRay(ray, rayTop * 2, true);
+    if (hit) {
+      return rayTop - hit.timeOfImpact;
+    }
+
+    return this.floor?.getMesh().position.y ?? 0;
+  }
+
+  /**
+   * Height of the character capsule's center when its bottom rests on groundY
+   */
+  private getCapsuleCenterY(groundY: number): number {
+    if (!this.characterController) return groundY;
+    const { capsuleHeight, capsuleRadius } = this.characterController.config;
+    return groundY + capsuleHeight / 2 + capsuleRadius + 0.1;
+  }
+
+  /**
+   * Respawn at the checkpoint just reached; the others go dark
+   */
+  private handleCheckpoint(checkpoint: Checkpoint): void {
+    this.checkpoints.forEach((other) => {
+      if (other !== checkpoint) other.setActive(false);
+    });
+    if (!this.characterController) return;
+
+    const { position, rotation } = checkpoint.getParams();
+    this.characterController.setRespawnPoint(
+      [position[0], this.getCapsuleCenterY(position[1]), position[2]],
+      rotation
+    );
+  }
+
   private async spawnCharacter(): Promise<void> {
     if (this.characterController) {
       console.warn("Character already spawned");
@@ -230,7 +447,7 @@ export class GameScene {
 
     try {
       // Get ground mesh from floor for collision detection (optional)
-      const groundMesh = this.floor.getMesh();
+      const groundMesh = this.floor?.getMesh() ?? null;
 
       // Get RAPIER instance from PhysicsManager to pass to CharacterController
       const RAPIER = this.physicsManager.getRAPIER();
@@ -245,8 +462,24 @@ export class GameScene {
         RAPIER // Pass initialized RAPIER instance from PhysicsManager
       );
 
-      // Create physics body
-      this.characterController.createPhysicsBody([0, 2, 0]);
+      // Create physics body with the capsule resting on the ground
+      const [spawnX, levelSpawnY, spawnZ] = this.level.spawn.position;
+      const spawnY = this.level.spawn.snapToGround
+        ? this.getCapsuleCenterY(this.getGroundHeightAt(spawnX, spawnZ))
+        : levelSpawnY;
+      this.characterController.createPhysicsBody([spawnX, spawnY, spawnZ]);
+      this.characterController.setRespawnPoint([spawnX, spawnY, spawnZ]);
+      this.characterController.config.killHeight = this.level.spawn.killHeight;
+      this.characterController.setPhysicsEvents(this.physicsManager.getEvents());
+      if (this.combat) {
+        this.characterController.setCombatSystem(this.combat);
+      }
+      this.characterController.setUpdrafts(this.updrafts);
+
+      // Kinematic movement runs inside the fixed physics step
+      this.physicsManager.addStepListener((dt) =>
+        this.characterController?.fixedUpdate(dt)
+      );
 
       console.log("Character spawned successfully");
 
@@ -275,6 +508,7 @@ export class GameScene {
       enableFootstepAudio: this.characterController.config.enableFootstepAudio,
       enableFootstepParticles:
         this.characterController.config.enableFootstepParticles,
+      enableFootIK: this.characterController.config.enableFootIK,
     };
 
     characterFootstepFolder
@@ -292,6 +526,66 @@ export class GameScene {
       .on("change", (ev: { value: boolean }) => {
         this.characterController!.config.enableFootstepParticles = ev.value;
       });
+
+    characterFootstepFolder
+      .addBinding(footstepParams, "enableFootIK", {
+        label: "Foot IK",
+      })
+      .on("change", (ev: { value: boolean }) => {
+        this.characterController!.config.enableFootIK = ev.value;
+      });
+
+    // Character Movement Controls
+    const characterMovementFolder = this.controlsManager.getFolder(
+      "🏃 Character Movement",
+      {
+        expanded: false,
+      }
+    );
+    const { config } = this.characterController;
+    new CharacterMovementControls(
+      characterMovementFolder,
+      this.characterController,
+      {
+        movementBackend: config.movementBackend,
+        maxClimbAngle: config.maxClimbAngle,
+        minSlideAngle: config.minSlideAngle,
+        autostepHeight: config.autostepHeight,
+        autostepMinWidth: config.autostepMinWidth,
+        snapToGround: config.snapToGround,
+        rootMotionRoll: this.characterController.isRootMotionEnabled("roll"),
+        rootMotionAttack:
+          this.characterController.isRootMotionEnabled("swordAttackAlt"),
+        coyoteTime: config.coyoteTime,
+        jumpBufferTime: config.jumpBufferTime,
+        jumpCutMultiplier: config.jumpCutMultiplier,
+        wallRunDuration: config.wallRunDuration,
+        wallRunMinAngle: config.wallRunMinAngle,
+        wallRunMaxAngle: config.wallRunMaxAngle,
+        wallJumpAngle: config.wallJumpAngle,
+        wallRunCooldown: config.wallRunCooldown,
+        maxWalkableAngle: config.maxWalkableAngle,
+        uphillSpeedFactor: config.uphillSpeedFactor,
+        slideMaxSpeed: config.slideMaxSpeed,
+      }
+    );
+
+    // Stamina Controls
+    const staminaFolder = this.controlsManager.getFolder("⚡ Stamina", {
+      expanded: false,
+    });
+    const stamina = this.characterController.getStamina();
+    const staminaParams = stamina.getParams();
+    new StaminaControls(staminaFolder, stamina, {
+      maxStamina: staminaParams.maxStamina,
+      sprintCost: staminaParams.costs.sprint ?? 0,
+      rollCost: staminaParams.costs.roll ?? 0,
+      climbCost: staminaParams.costs.climb ?? 0,
+      glideCost: staminaParams.costs.glide ?? 0,
+      regenRate: staminaParams.regenRate,
+      regenDelay: staminaParams.regenDelay,
+      recoveryThreshold: staminaParams.recoveryThreshold,
+    });
   }
 
   private setupControls(): void {
@@ -302,21 +596,15 @@ export class GameScene {
       expanded: true,
     });
     new SkyControls(skyToggleFolder, this.horizonSky, this.skybox, {
-      horizonSkyEnabled: true,
-      skyboxEnabled: false,
+      horizonSkyEnabled: this.horizonSky.getMesh().visible,
+      skyboxEnabled: this.skybox.isVisible(),
     });
 
     // HorizonSky Controls
     const skyFolder = this.controlsManager.getFolder("🌅 Horizon Sky", {
       expanded: true,
     });
-    new HorizonSkyControls(skyFolder, this.horizonSky, {
-      topColor: "#0077ff",
-      bottomColor: "#ffffff",
-      offset: 33,
-      exponent: 0.6,
-      radius: 4000,
-    });
+    new HorizonSkyControls(skyFolder, this.horizonSky, this.horizonSky.getParams());
 
     // Camera Controls
     const cameraFolder = this.controlsManager.getFolder("📷 Camera", {
@@ -331,26 +619,29 @@ export class GameScene {
     this.setupCharacterControls();
 
     // Floor Controls
-    const floorFolder = this.controlsManager.getFolder("🏠 Floor", {
-      expanded: true,
-    });
-    new FloorControls(floorFolder, this.floor, {
-      textureScale: 400,
-      gradientIntensity: 0.5,
-      gradientBias: 0.0,
-    });
+    if (this.floor) {
+      const floorFolder = this.controlsManager.getFolder("🏠 Floor", {
+        expanded: true,
+      });
+      new FloorControls(floorFolder, this.floor, {
+        textureScale: this.floor.getParams().textureScale,
+        gradientIntensity: 0.5,
+        gradientBias: 0.0,
+      });
+    }
 
     // Lights Controls
     const lightsFolder = this.controlsManager.getFolder("💡 Lights", {
       expanded: false,
     });
+    const { ambient, directional } = this.level.lights;
     new LightsControls(lightsFolder, this.ambientLight, this.directionalLight, {
-      ambientIntensity: 0.6,
-      directionalIntensity: 0.8,
-      directionalColor: "#ffffff",
-      directionalPositionX: 5,
-      directionalPositionY: 10,
-      directionalPositionZ: 5,
+      ambientIntensity: ambient.intensity,
+      directionalIntensity: directional.intensity,
+      directionalColor: directional.color,
+      directionalPositionX: directional.position[0],
+      directionalPositionY: directional.position[1],
+      directionalPositionZ: directional.position[2],
     });
 
     // CSM Controls
@@ -365,15 +656,7 @@ export class GameScene {
       this.directionalLight,
       this.patchedMaterials,
       () => this.applyCSMToScene(),
-      {
-        cascades: 3,
-        shadowMapSize: 2048,
-        shadowBias: -0.00005,
-        shadowNormalBias: 0.0,
-        fade: true,
-        lightMargin: 150,
-        maxFar: 300,
-      }
+      this.level.csm
     );
 
     // Update CSM reference when it's recreated
@@ -396,6 +679,27 @@ export class GameScene {
         this.rapierDebugRenderer.setEnabled(ev.value);
       });
 
+    // Physics Timestep Controls
+    const timestepFolder = this.controlsManager.getFolder("⏱️ Physics", {
+      expanded: false,
+    });
+    new PhysicsControls(timestepFolder, this.physicsManager, {
+      paused: this.physicsManager.isPaused(),
+      timeScale: this.physicsManager.getTimeScale(),
+      stepRate: Math.round(1 / this.level.physics.fixedTimeStep),
+      substeps: this.level.physics.substeps,
+    });
+
+    // Level Controls
+    const levelFolder = this.controlsManager.getFolder("🗺️ Level", {
+      expanded: false,
+    });
+    levelFolder
+      .addButton({ title: "Export Level JSON" })
+      .on("click", () => {
+        downloadLevel(serializeLevel(this));
+      });
+
     console.log("Controls setup complete");
   }
 
@@ -421,17 +725,25 @@ export class GameScene {
     }
 
     // Step physics FIRST (as per usage example: world.step() then character.update())
+    // simDelta follows pause / time scale so gameplay stays in sync with physics
     let interpolationAlpha = 0;
+    let simDelta = deltaTime;
     if (this.physicsManager.isInitialized()) {
       interpolationAlpha = this.physicsManager.step(deltaTime);
+      simDelta = this.physicsManager.getFrameDelta();
       // Update debug renderer
       this.rapierDebugRenderer.update(this.physicsManager.getWorld());
     }
 
+    // Interpolate platform meshes between physics steps
+    this.platforms.forEach((platform) => platform.update(interpolationAlpha));
+    this.dummies.forEach((dummy) => dummy.update(simDelta));
+    this.updrafts.forEach((updraft) => updraft.update(simDelta));
+
     // Update character (handles input, animation, and camera internally)
     // Character reads position from physics body after step
     if (this.characterController) {
-      this.characterController.update(deltaTime, interpolationAlpha);
+      this.characterController.update(simDelta, interpolationAlpha);
     }
 
     // Update camera based on mode
@@ -481,10 +793,86 @@ export class GameScene {
     return this.skybox;
   }
 
-  public getFloor(): Floor {
+  public getFloor(): Floor | null {
     return this.floor;
   }
 
+  public getTerrain(): Terrain | null {
+    return this.terrain;
+  }
+
+  public getBuildings(): Building[] {
+    return this.buildings;
+  }
+
+  public getLevelGeometry(): LevelGeometry[] {
+    return this.levelGeometry;
+  }
+
+  public getPlatforms(): MovingPlatform[] {
+    return this.platforms;
+  }
+
+  public getDummies(): TrainingDummy[] {
+    return this.dummies;
+  }
+
+  public getCheckpoints(): Checkpoint[] {
+    return this.checkpoints;
+  }
+
+  public getUpdrafts(): UpdraftVolume[] {
+    return this.updrafts;
+  }
+
+  public getTriggers(): TriggerVolume[] {
+    return this.triggers;
+  }
+
+  public getTrigger(name: string): TriggerVolume | undefined {
+    return this.triggers.find((trigger) => trigger.getName() === name);
+  }
+
+  /**
+   * Place a trigger volume from code
+   * Its sensor is created right away if physics is ready, otherwise in initPhysics()
+   */
+  public addTrigger(trigger: TriggerVolume): void {
+    this.triggers.push(trigger);
+    this.rapierDebugRenderer.addHelper(trigger.getHelper());
+    if (this.physicsManager.isInitialized()) {
+      trigger.addPhysics(
+        this.physicsManager.getRAPIER(),
+        this.physicsManager.getWorld(),
+        this.physicsManager.getEvents()
+      );
+    }
+  }
+
+  public getAmbientLight(): THREE.AmbientLight {
+    return this.ambientLight;
+  }
+
+  public getDirectionalLight(): THREE.DirectionalLight {
+    return this.directionalLight;
+  }
+
+  public getPhysicsManager(): PhysicsManager {
+    return this.physicsManager;
+  }
+
+  /**
+   * The level this scene was built from (not updated by live edits,
+   * use serializeLevel() for the current state)
+   */
+  public getLevel(): LevelData {
+    return this.level;
+  }
+
+  public getCSMSettings(): LevelData["csm"] {
+    return this.csmControls?.getParams() ?? this.level.csm;
+  }
+
   public getControlsManager(): ControlsManager {
     return this.controlsManager;
   }
@@ -496,33 +884,37 @@ export class GameScene {
       .normalize()
       .multiplyScalar(-1); // Reverse direction
 
-    // Initialize CSM with default settings (matching wawa-template)
+    // Initialize CSM with the level settings (defaults match wawa-template)
     // Use reasonable maxFar instead of camera.far (10000 is too large)
-    const maxFar = Math.min(this.camera.far, 300);
+    const csmSettings = this.level.csm;
+    const maxFar = Math.min(this.camera.far, csmSettings.maxFar);
 
     this.csm = new CSM({
       camera: this.camera,
       parent: this.scene,
-      cascades: 3,
-      shadowMapSize: 2048,
-      shadowBias: -0.00005,
+      cascades: csmSettings.cascades,
+      shadowMapSize: csmSettings.shadowMapSize,
+      shadowBias: csmSettings.shadowBias,
       lightDirection: lightDir,
       lightIntensity: this.directionalLight.intensity,
       maxFar: maxFar,
-      lightMargin: 150,
+      lightMargin: csmSettings.lightMargin,
     });
 
     // Configure CSM
-    this.csm.fade = true;
+    this.csm.fade = csmSettings.fade;
 
     // Configure each CSM light
     this.csm.lights.forEach((light) => {
       light.castShadow = true;
       light.intensity = this.directionalLight.intensity;
       light.color.copy(this.directionalLight.color);
-      light.shadow.bias = -0.00005;
-      light.shadow.normalBias = 0.0;
-      light.shadow.mapSize.set(2048, 2048);
+      light.shadow.bias = csmSettings.shadowBias;
+      light.shadow.normalBias = csmSettings.shadowNormalBias;
+      light.shadow.mapSize.set(
+        csmSettings.shadowMapSize,
+        csmSettings.shadowMapSize
+      );
     });
 
     // Update frustums and apply to scene
@@ -637,12 +1029,20 @@ export class GameScene {
 
     this.controlsManager.dispose();
     this.characterController?.dispose();
+    this.triggers.forEach((trigger) => trigger.dispose());
+    this.platforms.forEach((platform) => platform.dispose());
+    this.dummies.forEach((dummy) => dummy.dispose());
+    this.checkpoints.forEach((checkpoint) => checkpoint.dispose());
+    this.updrafts.forEach((updraft) => updraft.dispose());
+    this.combat?.dispose();
     this.rapierDebugRenderer.dispose();
     this.physicsManager.dispose();
     this.horizonSky.dispose();
     this.skybox.dispose();
-    this.floor.dispose();
-    this.building.dispose();
+    this.floor?.dispose();
+    this.terrain?.dispose();
+    this.buildings.forEach((building) => building.dispose());
+    this.levelGeometry.forEach((geometry) => geometry.dispose());
     this.controls.dispose();
     this.renderer.dispose();
   }
@@ -4,6 +4,8 @@ export interface FootstepParticleSpawnOptions {
   position: THREE.Vector3;
   normal?: THREE.Vector3;
   slopeFactor?: number;
+  /** Scales the puff's speed and size, e.g. for hard landings (default 1) */
+  strength?: number;
 }
 
 const MAX_PARTICLES = 48;
@@ -102,8 +104,9 @@ export class FootstepParticles {
         ? options.normal.clone()
         : undefined;
     const slopeFactor = options.slopeFactor ?? 0;
-    const lateralStrength = THREE.MathUtils.lerp(0.4, 1.1, slopeFactor);
-    const upwardStrength = THREE.MathUtils.lerp(0.55, 0.8, 1 - slopeFactor);
+    const strength = options.strength ?? 1;
+    const lateralStrength = THREE.MathUtils.lerp(0.4, 1.1, slopeFactor) * strength;
+    const upwardStrength = THREE.MathUtils.lerp(0.55, 0.8, 1 - slopeFactor) * strength;
 
     const randomDir = new THREE.Vector3(
       Math.random() - 0.5,
@@ -123,7 +126,7 @@ export class FootstepParticles {
     }
 
     this.lifetimes[index] = PARTICLE_LIFETIME;
-    const initialScale = 0.35 + Math.random() * 0.2;
+    const initialScale = (0.35 + Math.random() * 0.2) * Math.sqrt(strength);
     this.initialScales[index] = initialScale;
     sprite.scale.setScalar(initialScale);
 
@@ -0,0 +1,52 @@
+import { GameScene } from "../core/Scene";
+import { validateLevel, type LevelData } from "./LevelSchema";
+
+export const DEFAULT_LEVEL_URL = "/levels/default.json";
+
+/**
+ * Fetch and validate a level JSON file
+ * Throws on network errors and LevelValidationError on bad data
+ */
+export async function loadLevel(url: string = DEFAULT_LEVEL_URL): Promise<LevelData> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load level ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const level = validateLevel(await response.json());
+  console.log("Level loaded:", level.name, {
+    buildings: level.buildings.length,
+    props: level.props.length,
+    floor: level.floor !== null,
+    terrain: level.terrain !== null,
+  });
+  return level;
+}
+
+/**
+ * Level URL from the page query string (?level=/levels/zelda.json),
+ * falling back to the default level
+ */
+export function getLevelUrlFromLocation(): string {
+  return new URLSearchParams(window.location.search).get("level") ?? DEFAULT_LEVEL_URL;
+}
+
+/**
+ * Load a level and build the GameScene from it
+ * If the level can't be loaded the built-in defaults are used instead,
+ * so a broken map file still gives a playable scene
+ */
+export async function createGameScene(
+  container: HTMLElement,
+  url: string = getLevelUrlFromLocation()
+): Promise<GameScene> {
+  let level: LevelData;
+  try {
+    level = await loadLevel(url);
+  } catch (error) {
+    console.error("Error loading level, using defaults:", error);
+    level = validateLevel({ name: "Default" });
+  }
+
+  return new GameScene(container, level);
+}
@@ -0,0 +1,499 @@
+import type { LevelColliderType } from "../components/LevelGeometry";
+import type { TriggerShape } from "../components/TriggerVolume";
+import type { PlatformEasing, PlatformPathMode } from "../components/MovingPlatform";
+import {
+  TILE_DENSITY,
+  TILE_REFERENCE_SCALE,
+} from "../components/tileMaterialConfig";
+
+export type Vec3 = [number, number, number];
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export interface LevelSkyData {
+  type: "horizon" | "skybox";
+  topColor: string;
+  bottomColor: string;
+  offset: number;
+  exponent: number;
+  radius: number;
+}
+
+export interface LevelLightsData {
+  ambient: { color: string; intensity: number };
+  directional: { color: string; intensity: number; position: Vec3 };
+}
+
+export interface LevelCSMData {
+  cascades: number;
+  shadowMapSize: number;
+  shadowBias: number;
+  shadowNormalBias: number;
+  fade: boolean;
+  lightMargin: number;
+  maxFar: number;
+}
+
+export interface LevelFloorData {
+  size: number;
+  position: Vec3;
+  textureScale: number;
+}
+
+export interface LevelTerrainData {
+  heightmapUrl: string;
+  size: number;
+  maxHeight: number;
+  segments: number;
+  position: Vec3;
+  textureScale: number;
+}
+
+export interface LevelBuildingData {
+  /** Center of the box, not its base */
+  position: Vec3;
+  width: number;
+  height: number;
+  depth: number;
+  scale: number;
+}
+
+export interface LevelPropData {
+  url: string;
+  position: Vec3;
+  /** Euler angles in degrees */
+  rotation: Vec3;
+  scale: number;
+  collider: LevelColliderType;
+}
+
+export interface LevelTriggerData {
+  /** Used to look the trigger up from code (GameScene.getTrigger) */
+  name: string;
+  shape: TriggerShape;
+  position: Vec3;
+  /** Euler angles in degrees */
+  rotation: Vec3;
+  size: Vec3;
+  radius: number;
+  height: number;
+  tags: string[];
+  once: boolean;
+}
+
+export interface LevelPlatformData {
+  name: string;
+  size: Vec3;
+  position: Vec3;
+  /** Offsets from position, visited in order after the start */
+  waypoints: Vec3[];
+  speed: number;
+  wait: number;
+  mode: PlatformPathMode;
+  easing: PlatformEasing;
+  /** Degrees per second around Y */
+  rotationSpeed: number;
+}
+
+export interface LevelDummyData {
+  name: string;
+  /** Base of the dummy, on the ground */
+  position: Vec3;
+  /** Degrees around Y */
+  rotation: number;
+}
+
+export interface LevelCheckpointData {
+  name: string;
+  /** Respawn point, on the ground */
+  position: Vec3;
+  /** Degrees around Y, the facing after respawning */
+  rotation: number;
+  /** Trigger box standing on position */
+  size: Vec3;
+}
+
+export interface LevelUpdraftData {
+  name: string;
+  /** Base of the column, on the ground */
+  position: Vec3;
+  size: Vec3;
+  /** Upward acceleration (m/s²) on gliders inside */
+  strength: number;
+  /** Rise speed (m/s) gliders are pushed up to */
+  maxSpeed: number;
+}
+
+export interface LevelSpawnData {
+  position: Vec3;
+  /** Ignore position[1] and place the capsule on whatever is below */
+  snapToGround: boolean;
+  /** Falling below this height respawns at the last checkpoint */
+  killHeight: number;
+}
+
+export interface LevelPhysicsData {
+  gravity: Vec3;
+  /** Seconds per fixed physics step */
+  fixedTimeStep: number;
+  /** World steps per fixed step */
+  substeps: number;
+}
+
+export interface LevelData {
+  version: number;
+  name: string;
+  sky: LevelSkyData;
+  lights: LevelLightsData;
+  csm: LevelCSMData;
+  floor: LevelFloorData | null;
+  terrain: LevelTerrainData | null;
+  buildings: LevelBuildingData[];
+  props: LevelPropData[];
+  triggers: LevelTriggerData[];
+  platforms: LevelPlatformData[];
+  dummies: LevelDummyData[];
+  checkpoints: LevelCheckpointData[];
+  updrafts: LevelUpdraftData[];
+  spawn: LevelSpawnData;
+  physics: LevelPhysicsData;
+}
+
+export class LevelValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "LevelValidationError";
+    this.path = path;
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+function readObject(value: unknown, path: string): RawObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new LevelValidationError(path, "expected an object");
+  }
+  return value as RawObject;
+}
+
+function readOptionalObject(parent: RawObject, key: string, path: string): RawObject {
+  return parent[key] === undefined ? {} : readObject(parent[key], `${path}.${key}`);
+}
+
+function readNumber(
+  parent: RawObject,
+  key: string,
+  path: string,
+  fallback: number,
+  range: { min?: number; max?: number; integer?: boolean } = {}
+): number {
+  const value = parent[key] ?? fallback;
+  const fieldPath = `${path}.${key}`;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new LevelValidationError(fieldPath, "expected a finite number");
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    throw new LevelValidationError(fieldPath, "expected an integer");
+  }
+  if (range.min !== undefined && value < range.min) {
+    throw new LevelValidationError(fieldPath, `must be >= ${range.min}`);
+  }
+  if (range.max !== undefined && value > range.max) {
+    throw new LevelValidationError(fieldPath, `must be <= ${range.max}`);
+  }
+  return value;
+}
+
+function readString(parent: RawObject, key: string, path: string, fallback?: string): string {
+  const value = parent[key] ?? fallback;
+  if (typeof value !== "string" || value.length === 0) {
+    throw new LevelValidationError(`${path}.${key}`, "expected a non-empty string");
+  }
+  return value;
+}
+
+function readBoolean(parent: RawObject, key: string, path: string, fallback: boolean): boolean {
+  const value = parent[key] ?? fallback;
+  if (typeof value !== "boolean") {
+    throw new LevelValidationError(`${path}.${key}`, "expected a boolean");
+  }
+  return value;
+}
+
+function readColor(parent: RawObject, key: string, path: string, fallback: string): string {
+  const value = readString(parent, key, path, fallback);
+  if (!HEX_COLOR.test(value)) {
+    throw new LevelValidationError(`${path}.${key}`, 'expected a color like "#ffffff"');
+  }
+  return value.toLowerCase();
+}
+
+function readEnum<T extends string>(
+  parent: RawObject,
+  key: string,
+  path: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const value = parent[key] ?? fallback;
+  if (!allowed.includes(value as T)) {
+    throw new LevelValidationError(
+      `${path}.${key}`,
+      `expected one of ${allowed.map((v) => `"${v}"`).join(", ")}`
+    );
+  }
+  return value as T;
+}
+
+function readVec3(parent: RawObject, key: string, path: string, fallback: Vec3): Vec3 {
+  return toVec3(parent[key] ?? fallback, `${path}.${key}`);
+}
+
+function toVec3(value: unknown, fieldPath: string): Vec3 {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    !value.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    throw new LevelValidationError(fieldPath, "expected [x, y, z] numbers");
+  }
+  return [value[0], value[1], value[2]];
+}
+
+function readVec3Array(parent: RawObject, key: string, path: string): Vec3[] {
+  const value = parent[key] ?? [];
+  const fieldPath = `${path}.${key}`;
+  if (!Array.isArray(value)) {
+    throw new LevelValidationError(fieldPath, "expected an array");
+  }
+  return value.map((item, index) => toVec3(item, `${fieldPath}[${index}]`));
+}
+
+function readArray<T>(
+  parent: RawObject,
+  key: string,
+  path: string,
+  readItem: (item: RawObject, itemPath: string) => T
+): T[] {
+  const value = parent[key] ?? [];
+  const fieldPath = `${path}.${key}`;
+  if (!Array.isArray(value)) {
+    throw new LevelValidationError(fieldPath, "expected an array");
+  }
+  return value.map((item, index) =>
+    readItem(readObject(item, `${fieldPath}[${index}]`), `${fieldPath}[${index}]`)
+  );
+}
+
+function readNullable<T>(
+  parent: RawObject,
+  key: string,
+  path: string,
+  readItem: (item: RawObject, itemPath: string) => T
+): T | null {
+  if (parent[key] === null) {
+    return null;
+  }
+  return readItem(readOptionalObject(parent, key, path), `${path}.${key}`);
+}
+
+function readSky(raw: RawObject, path: string): LevelSkyData {
+  return {
+    type: readEnum(raw, "type", path, ["horizon", "skybox"] as const, "horizon"),
+    topColor: readColor(raw, "topColor", path, "#0077ff"),
+    bottomColor: readColor(raw, "bottomColor", path, "#ffffff"),
+    offset: readNumber(raw, "offset", path, 33),
+    exponent: readNumber(raw, "exponent", path, 0.6, { min: 0 }),
+    radius: readNumber(raw, "radius", path, 4000, { min: 1 }),
+  };
+}
+
+function readLights(raw: RawObject, path: string): LevelLightsData {
+  const ambient = readOptionalObject(raw, "ambient", path);
+  const directional = readOptionalObject(raw, "directional", path);
+  return {
+    ambient: {
+      color: readColor(ambient, "color", `${path}.ambient`, "#ffffff"),
+      intensity: readNumber(ambient, "intensity", `${path}.ambient`, 0.6, { min: 0 }),
+    },
+    directional: {
+      color: readColor(directional, "color", `${path}.directional`, "#ffffff"),
+      intensity: readNumber(directional, "intensity", `${path}.directional`, 0.8, { min: 0 }),
+      position: readVec3(directional, "position", `${path}.directional`, [5, 10, 5]),
+    },
+  };
+}
+
+function readCSM(raw: RawObject, path: string): LevelCSMData {
+  return {
+    cascades: readNumber(raw, "cascades", path, 3, { min: 1, max: 4, integer: true }),
+    shadowMapSize: readNumber(raw, "shadowMapSize", path, 2048, { min: 256, integer: true }),
+    shadowBias: readNumber(raw, "shadowBias", path, -0.00005),
+    shadowNormalBias: readNumber(raw, "shadowNormalBias", path, 0.0),
+    fade: readBoolean(raw, "fade", path, true),
+    lightMargin: readNumber(raw, "lightMargin", path, 150, { min: 0 }),
+    maxFar: readNumber(raw, "maxFar", path, 300, { min: 1 }),
+  };
+}
+
+function readFloor(raw: RawObject, path: string): LevelFloorData {
+  return {
+    size: readNumber(raw, "size", path, 200, { min: 1 }),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    textureScale: readNumber(raw, "textureScale", path, TILE_REFERENCE_SCALE, { min: 0 }),
+  };
+}
+
+function readTerrain(raw: RawObject, path: string): LevelTerrainData {
+  const size = readNumber(raw, "size", path, 200, { min: 1 });
+  return {
+    heightmapUrl: readString(raw, "heightmapUrl", path, "/textures/unreal-heightmap.png"),
+    size,
+    maxHeight: readNumber(raw, "maxHeight", path, 20, { min: 0 }),
+    segments: readNumber(raw, "segments", path, 128, { min: 1, max: 1024, integer: true }),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    // Same tile density as the floor unless overridden
+    textureScale: readNumber(raw, "textureScale", path, size * TILE_DENSITY, { min: 0 }),
+  };
+}
+
+function readBuilding(raw: RawObject, path: string): LevelBuildingData {
+  return {
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    width: readNumber(raw, "width", path, 18, { min: 0 }),
+    height: readNumber(raw, "height", path, 60, { min: 0 }),
+    depth: readNumber(raw, "depth", path, 14, { min: 0 }),
+    scale: readNumber(raw, "scale", path, 1, { min: 0 }),
+  };
+}
+
+function readProp(raw: RawObject, path: string): LevelPropData {
+  return {
+    url: readString(raw, "url", path),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    rotation: readVec3(raw, "rotation", path, [0, 0, 0]),
+    scale: readNumber(raw, "scale", path, 1, { min: 0 }),
+    collider: readEnum(raw, "collider", path, ["trimesh", "convex", "none"] as const, "trimesh"),
+  };
+}
+
+function readStringArray(parent: RawObject, key: string, path: string, fallback: string[]): string[] {
+  const value = parent[key] ?? fallback;
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string" && item.length > 0)) {
+    throw new LevelValidationError(`${path}.${key}`, "expected an array of non-empty strings");
+  }
+  return [...value];
+}
+
+function readTrigger(raw: RawObject, path: string): LevelTriggerData {
+  return {
+    name: readString(raw, "name", path),
+    shape: readEnum(raw, "shape", path, ["box", "sphere", "capsule"] as const, "box"),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    rotation: readVec3(raw, "rotation", path, [0, 0, 0]),
+    size: readVec3(raw, "size", path, [2, 2, 2]),
+    radius: readNumber(raw, "radius", path, 1, { min: 0 }),
+    height: readNumber(raw, "height", path, 1, { min: 0 }),
+    tags: readStringArray(raw, "tags", path, ["player"]),
+    once: readBoolean(raw, "once", path, false),
+  };
+}
+
+function readPlatform(raw: RawObject, path: string): LevelPlatformData {
+  return {
+    name: readString(raw, "name", path, "Platform"),
+    size: readVec3(raw, "size", path, [4, 0.5, 4]),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    waypoints: readVec3Array(raw, "waypoints", path),
+    speed: readNumber(raw, "speed", path, 2, { min: 0 }),
+    wait: readNumber(raw, "wait", path, 1, { min: 0 }),
+    mode: readEnum(raw, "mode", path, ["pingpong", "loop"] as const, "pingpong"),
+    easing: readEnum(raw, "easing", path, ["linear", "smooth"] as const, "smooth"),
+    rotationSpeed: readNumber(raw, "rotationSpeed", path, 0),
+  };
+}
+
+function readDummy(raw: RawObject, path: string): LevelDummyData {
+  return {
+    name: readString(raw, "name", path, "Dummy"),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    rotation: readNumber(raw, "rotation", path, 0),
+  };
+}
+
+function readCheckpoint(raw: RawObject, path: string): LevelCheckpointData {
+  return {
+    name: readString(raw, "name", path, "Checkpoint"),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    rotation: readNumber(raw, "rotation", path, 0),
+    size: readVec3(raw, "size", path, [3, 3, 3]),
+  };
+}
+
+function readUpdraft(raw: RawObject, path: string): LevelUpdraftData {
+  return {
+    name: readString(raw, "name", path, "Updraft"),
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    size: readVec3(raw, "size", path, [4, 20, 4]),
+    strength: readNumber(raw, "strength", path, 20, { min: 0 }),
+    maxSpeed: readNumber(raw, "maxSpeed", path, 6, { min: 0 }),
+  };
+}
+
+function readSpawn(raw: RawObject, path: string): LevelSpawnData {
+  return {
+    position: readVec3(raw, "position", path, [0, 0, 0]),
+    snapToGround: readBoolean(raw, "snapToGround", path, true),
+    killHeight: readNumber(raw, "killHeight", path, -50),
+  };
+}
+
+function readPhysics(raw: RawObject, path: string): LevelPhysicsData {
+  return {
+    gravity: readVec3(raw, "gravity", path, [0, -9.81, 0]),
+    fixedTimeStep: readNumber(raw, "fixedTimeStep", path, 1 / 60, { min: 0.001, max: 0.1 }),
+    substeps: readNumber(raw, "substeps", path, 1, { min: 1, max: 8, integer: true }),
+  };
+}
+
+/**
+ * Validate raw JSON and fill in defaults
+ * Missing sections fall back to the original hardcoded scene; pass null for
+ * floor or terrain to leave them out. Throws LevelValidationError with the
+ * JSON path of the first bad field.
+ */
+export function validateLevel(data: unknown): LevelData {
+  const root = readObject(data, "level");
+  const path = "level";
+
+  const version = readNumber(root, "version", path, LEVEL_FORMAT_VERSION, { integer: true });
+  if (version > LEVEL_FORMAT_VERSION) {
+    throw new LevelValidationError(
+      `${path}.version`,
+      `unsupported version ${version} (max ${LEVEL_FORMAT_VERSION})`
+    );
+  }
+
+  return {
+    version,
+    name: readString(root, "name", path, "Untitled"),
+    sky: readSky(readOptionalObject(root, "sky", path), `${path}.sky`),
+    lights: readLights(readOptionalObject(root, "lights", path), `${path}.lights`),
+    csm: readCSM(readOptionalObject(root, "csm", path), `${path}.csm`),
+    floor: readNullable(root, "floor", path, readFloor),
+    terrain: root.terrain === undefined ? null : readNullable(root, "terrain", path, readTerrain),
+    buildings: readArray(root, "buildings", path, readBuilding),
+    props: readArray(root, "props", path, readProp),
+    triggers: readArray(root, "triggers", path, readTrigger),
+    platforms: readArray(root, "platforms", path, readPlatform),
+    dummies: readArray(root, "dummies", path, readDummy),
+    checkpoints: readArray(root, "checkpoints", path, readCheckpoint),
+    updrafts: readArray(root, "updrafts", path, readUpdraft),
+    spawn: readSpawn(readOptionalObject(root, "spawn", path), `${path}.spawn`),
+    physics: readPhysics(readOptionalObject(root, "physics", path), `${path}.physics`),
+  };
+}
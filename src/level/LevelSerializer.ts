@@ -0,0 +1,116 @@
+import * as THREE from "three";
+import type { GameScene } from "../core/Scene";
+import { LEVEL_FORMAT_VERSION, type LevelData, type Vec3 } from "./LevelSchema";
+
+const toHex = (color: THREE.Color): string => `#${color.getHexString()}`;
+
+/**
+ * Snapshot the current scene (including Tweakpane edits) as level data
+ * The result round-trips through validateLevel()
+ */
+export function serializeLevel(gameScene: GameScene): LevelData {
+  const level = gameScene.getLevel();
+  const horizonSky = gameScene.getHorizonSky();
+  const ambientLight = gameScene.getAmbientLight();
+  const directionalLight = gameScene.getDirectionalLight();
+  const physicsManager = gameScene.getPhysicsManager();
+
+  const gravity = physicsManager.isInitialized()
+    ? physicsManager.getWorld().gravity
+    : null;
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: level.name,
+    sky: {
+      type: gameScene.getSkybox().isVisible() ? "skybox" : "horizon",
+      ...horizonSky.getParams(),
+    },
+    lights: {
+      ambient: {
+        color: toHex(ambientLight.color),
+        intensity: ambientLight.intensity,
+      },
+      directional: {
+        color: toHex(directionalLight.color),
+        intensity: directionalLight.intensity,
+        position: directionalLight.position.toArray(),
+      },
+    },
+    csm: { ...gameScene.getCSMSettings() },
+    floor: gameScene.getFloor()?.getParams() ?? null,
+    terrain: gameScene.getTerrain()?.getParams() ?? null,
+    buildings: gameScene.getBuildings().map((building) => building.getParams()),
+    props: gameScene.getLevelGeometry().map((geometry) => {
+      const params = geometry.getParams();
+      return {
+        url: params.url,
+        position: params.position,
+        rotation: params.rotation.map((rad) =>
+          THREE.MathUtils.radToDeg(rad)
+        ) as Vec3,
+        scale: params.scale,
+        collider: params.defaultCollider,
+      };
+    }),
+    triggers: gameScene.getTriggers().map((trigger) => {
+      const params = trigger.getParams();
+      return {
+        ...params,
+        rotation: params.rotation.map((rad) =>
+          THREE.MathUtils.radToDeg(rad)
+        ) as Vec3,
+      };
+    }),
+    platforms: gameScene.getPlatforms().map((platform) => {
+      const params = platform.getParams();
+      return {
+        ...params,
+        rotationSpeed: THREE.MathUtils.radToDeg(params.rotationSpeed),
+      };
+    }),
+    dummies: gameScene.getDummies().map((dummy) => {
+      const params = dummy.getParams();
+      return {
+        ...params,
+        rotation: THREE.MathUtils.radToDeg(params.rotation),
+      };
+    }),
+    checkpoints: gameScene.getCheckpoints().map((checkpoint) => {
+      const params = checkpoint.getParams();
+      return {
+        ...params,
+        rotation: THREE.MathUtils.radToDeg(params.rotation),
+      };
+    }),
+    updrafts: gameScene.getUpdrafts().map((updraft) => updraft.getParams()),
+    spawn: {
+      position: [...level.spawn.position],
+      snapToGround: level.spawn.snapToGround,
+      killHeight: level.spawn.killHeight,
+    },
+    physics: {
+      gravity: gravity ? [gravity.x, gravity.y, gravity.z] : level.physics.gravity,
+      fixedTimeStep: physicsManager.getFixedTimeStep(),
+      substeps: physicsManager.getSubsteps(),
+    },
+  };
+}
+
+/**
+ * Save level data as a pretty-printed JSON file through the browser
+ */
+export function downloadLevel(level: LevelData, filename?: string): void {
+  const json = JSON.stringify(level, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download =
+    filename ?? `${level.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+  console.log("Level exported:", link.download);
+}
@@ -1,8 +1,8 @@
 import "./style.css";
-import { GameScene } from "./core/Scene";
+import { createGameScene } from "./level/LevelLoader";
 
 // Wait for DOM to be ready
-function init() {
+async function init() {
   // Get the app container
   const app = document.querySelector<HTMLDivElement>("#app");
   
@@ -17,8 +17,8 @@ function init() {
   console.log("Initializing game scene...");
   console.log("Container dimensions:", app.clientWidth, "x", app.clientHeight);
 
-  // Create and initialize the game scene
-  const gameScene = new GameScene(app);
+  // Load the level and build the game scene from it
+  const gameScene = await createGameScene(app);
 
   console.log("Game scene created, starting animation...");
 
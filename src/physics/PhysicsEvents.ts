@@ -0,0 +1,291 @@
+type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
+type Collider = InstanceType<RAPIER["Collider"]>;
+type Vector = { x: number; y: number; z: number };
+
+export type PhysicsEventType = "collisionStart" | "collisionEnd" | "contactForce";
+
+export interface CollisionEvent {
+  type: "collisionStart" | "collisionEnd";
+  /** The collider the listener subscribed to (or one owned by the subscribed owner) */
+  collider: Collider;
+  other: Collider;
+  /** Owner registered for the other collider, if any */
+  otherOwner: unknown;
+  /** True if either collider is a sensor (intersection rather than contact) */
+  sensor: boolean;
+}
+
+export interface ContactForceEvent {
+  type: "contactForce";
+  collider: Collider;
+  other: Collider;
+  otherOwner: unknown;
+  totalForce: Vector;
+  totalForceMagnitude: number;
+  maxForceDirection: Vector;
+  maxForceMagnitude: number;
+}
+
+export interface PhysicsEventMap {
+  collisionStart: CollisionEvent;
+  collisionEnd: CollisionEvent;
+  contactForce: ContactForceEvent;
+}
+
+export type PhysicsEventListener<T extends PhysicsEventType> = (
+  event: PhysicsEventMap[T]
+) => void;
+
+type ListenerSets = {
+  [T in PhysicsEventType]: Set<PhysicsEventListener<T>>;
+};
+
+export interface PhysicsEventOptions {
+  /** Minimum total force before contactForce fires for this collider */
+  contactForceThreshold?: number;
+}
+
+function createListenerSets(): ListenerSets {
+  return {
+    collisionStart: new Set(),
+    collisionEnd: new Set(),
+    contactForce: new Set(),
+  };
+}
+
+/**
+ * Drains Rapier's EventQueue after each world step and dispatches typed
+ * collision / contact force events to listeners registered per collider or
+ * per owning object (a Building, the character, a trigger...).
+ *
+ * Rapier only reports events for colliders with ActiveEvents set, so
+ * subscribing enables them on the collider automatically.
+ */
+export class PhysicsEventBus {
+  private RAPIER: RAPIER;
+  private world: InstanceType<RAPIER["World"]>;
+  private eventQueue: InstanceType<RAPIER["EventQueue"]>;
+  private colliderListeners = new Map<number, ListenerSets>();
+  private ownerListeners = new Map<unknown, ListenerSets>();
+  private owners = new Map<number, unknown>();
+  private tags = new Map<number, Set<string>>();
+
+  constructor(RAPIER: RAPIER, world: InstanceType<RAPIER["World"]>) {
+    this.RAPIER = RAPIER;
+    this.world = world;
+    this.eventQueue = new RAPIER.EventQueue(true);
+  }
+
+  getEventQueue(): InstanceType<RAPIER["EventQueue"]> {
+    return this.eventQueue;
+  }
+
+  /**
+   * Associate a collider with a gameplay object so listeners on the owner
+   * receive its events, and other colliders see it as otherOwner
+   */
+  setOwner(collider: Collider, owner: unknown, options: PhysicsEventOptions = {}): void {
+    this.owners.set(collider.handle, owner);
+    this.enableEvents(collider, options);
+  }
+
+  getOwner(collider: Collider): unknown {
+    return this.owners.get(collider.handle);
+  }
+
+  /**
+   * Label a collider ("player", "enemy"...) so sensors can filter what they react to
+   */
+  setTags(collider: Collider, tags: string[]): void {
+    this.tags.set(collider.handle, new Set(tags));
+    this.enableEvents(collider, {});
+  }
+
+  hasTag(collider: Collider, tag: string): boolean {
+    return this.tags.get(collider.handle)?.has(tag) ?? false;
+  }
+
+  /**
+   * Listen for events on a single collider. Returns an unsubscribe function.
+   */
+  on<T extends PhysicsEventType>(
+    collider: Collider,
+    type: T,
+    listener: PhysicsEventListener<T>,
+    options: PhysicsEventOptions = {}
+  ): () => void {
+    this.enableEvents(collider, options);
+
+    let sets = this.colliderListeners.get(collider.handle);
+    if (!sets) {
+      sets = createListenerSets();
+      this.colliderListeners.set(collider.handle, sets);
+    }
+    const set = sets[type] as Set<PhysicsEventListener<T>>;
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Listen for events on every collider registered to owner with setOwner().
+   * Returns an unsubscribe function.
+   */
+  onOwner<T extends PhysicsEventType>(
+    owner: unknown,
+    type: T,
+    listener: PhysicsEventListener<T>
+  ): () => void {
+    let sets = this.ownerListeners.get(owner);
+    if (!sets) {
+      sets = createListenerSets();
+      this.ownerListeners.set(owner, sets);
+    }
+    const set = sets[type] as Set<PhysicsEventListener<T>>;
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Forget a collider before (or after) it is removed from the world.
+   * Rapier reuses handles, so stale listeners would fire for new colliders.
+   */
+  removeCollider(collider: Collider): void {
+    this.colliderListeners.delete(collider.handle);
+    this.owners.delete(collider.handle);
+    this.tags.delete(collider.handle);
+  }
+
+  /**
+   * Drop all listeners registered for an owner and its collider mapping
+   */
+  removeOwner(owner: unknown): void {
+    this.ownerListeners.delete(owner);
+    this.owners.forEach((value, handle) => {
+      if (value === owner) {
+        this.owners.delete(handle);
+      }
+    });
+  }
+
+  /**
+   * Dispatch every event collected since the last call
+   * Called by PhysicsManager after each world step
+   */
+  dispatch(): void {
+    this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      const collider1 = this.getLiveCollider(handle1);
+      const collider2 = this.getLiveCollider(handle2);
+      if (!collider1 || !collider2) {
+        return;
+      }
+
+      const type = started ? "collisionStart" : "collisionEnd";
+      const sensor = collider1.isSensor() || collider2.isSensor();
+      this.emit(type, collider1, collider2, (collider, other) => ({
+        type,
+        collider,
+        other,
+        otherOwner: this.owners.get(other.handle),
+        sensor,
+      }));
+    });
+
+    this.eventQueue.drainContactForceEvents((event) => {
+      const collider1 = this.getLiveCollider(event.collider1());
+      const collider2 = this.getLiveCollider(event.collider2());
+      if (!collider1 || !collider2) {
+        return;
+      }
+
+      // Copy out of the temporary event, which is only valid inside this closure
+      const totalForce = event.totalForce();
+      const maxForceDirection = event.maxForceDirection();
+      const totalForceMagnitude = event.totalForceMagnitude();
+      const maxForceMagnitude = event.maxForceMagnitude();
+
+      this.emit("contactForce", collider1, collider2, (collider, other) => {
+        // Forces are reported as applied on collider1; flip them for collider2
+        const sign = collider === collider1 ? 1 : -1;
+        return {
+          type: "contactForce",
+          collider,
+          other,
+          otherOwner: this.owners.get(other.handle),
+          totalForce: {
+            x: totalForce.x * sign,
+            y: totalForce.y * sign,
+            z: totalForce.z * sign,
+          },
+          totalForceMagnitude,
+          maxForceDirection: {
+            x: maxForceDirection.x * sign,
+            y: maxForceDirection.y * sign,
+            z: maxForceDirection.z * sign,
+          },
+          maxForceMagnitude,
+        };
+      });
+    });
+  }
+
+  /**
+   * Resolve a handle from the queue, or null if that collider was removed.
+   * world.getCollider() ignores the handle generation, so a removed
+   * collider's handle can resolve to a newer collider in the same slot.
+   */
+  getLiveCollider(handle: number): Collider | null {
+    const collider = this.world.getCollider(handle);
+    return collider && collider.handle === handle ? collider : null;
+  }
+
+  private emit<T extends PhysicsEventType>(
+    type: T,
+    collider1: Collider,
+    collider2: Collider,
+    createEvent: (collider: Collider, other: Collider) => PhysicsEventMap[T]
+  ): void {
+    const pairs: [Collider, Collider][] = [
+      [collider1, collider2],
+      [collider2, collider1],
+    ];
+
+    pairs.forEach(([collider, other]) => {
+      const colliderSet = this.colliderListeners.get(collider.handle)?.[type];
+      const owner = this.owners.get(collider.handle);
+      const ownerSet =
+        owner !== undefined ? this.ownerListeners.get(owner)?.[type] : undefined;
+
+      if (!colliderSet?.size && !ownerSet?.size) {
+        return;
+      }
+
+      const event = createEvent(collider, other);
+      colliderSet?.forEach((listener) =>
+        (listener as PhysicsEventListener<T>)(event)
+      );
+      ownerSet?.forEach((listener) =>
+        (listener as PhysicsEventListener<T>)(event)
+      );
+    });
+  }
+
+  private enableEvents(collider: Collider, options: PhysicsEventOptions): void {
+    const { ActiveEvents } = this.RAPIER;
+    collider.setActiveEvents(
+      collider.activeEvents() |
+        ActiveEvents.COLLISION_EVENTS |
+        ActiveEvents.CONTACT_FORCE_EVENTS
+    );
+    if (options.contactForceThreshold !== undefined) {
+      collider.setContactForceEventThreshold(options.contactForceThreshold);
+    }
+  }
+
+  dispose(): void {
+    this.colliderListeners.clear();
+    this.ownerListeners.clear();
+    this.owners.clear();
+    this.tags.clear();
+    this.eventQueue.free();
+  }
+}
@@ -1,13 +1,24 @@
+import { PhysicsEventBus } from "./PhysicsEvents";
+
 type RAPIER = Awaited<typeof import("@dimforge/rapier3d")>;
 
 export class PhysicsManager {
   private RAPIER: RAPIER | null = null;
   private world: InstanceType<RAPIER["World"]> | null = null;
+  private events: PhysicsEventBus | null = null;
   private initialized: boolean = false;
   private fixedTimeStep: number = 1 / 60; // 60hz physics
+  private substeps: number = 1;
   private accumulator: number = 0;
+  private timeScale: number = 1;
+  private paused: boolean = false;
+  private pendingSteps: number = 0;
+  private frameDelta: number = 0;
+  private stepListeners = new Set<(dt: number) => void>();
 
-  async init(): Promise<void> {
+  async init(
+    gravity: { x: number; y: number; z: number } = { x: 0.0, y: -9.81, z: 0.0 }
+  ): Promise<void> {
     if (this.initialized) {
       return;
     }
@@ -16,7 +27,9 @@ export class PhysicsManager {
     this.RAPIER = await import("@dimforge/rapier3d");
 
     // Create physics world with gravity
-    this.world = new this.RAPIER.World({ x: 0.0, y: -9.81, z: 0.0 });
+    this.world = new this.RAPIER.World(gravity);
+    this.applyTimestep();
+    this.events = new PhysicsEventBus(this.RAPIER, this.world);
 
     this.initialized = true;
     console.log("PhysicsManager initialized");
@@ -29,6 +42,16 @@ export class PhysicsManager {
     return this.world;
   }
 
+  /**
+   * Collision / contact force events, dispatched after every world step
+   */
+  getEvents(): PhysicsEventBus {
+    if (!this.events) {
+      throw new Error("PhysicsManager not initialized. Call init() first.");
+    }
+    return this.events;
+  }
+
   getRAPIER(): RAPIER {
     if (!this.RAPIER) {
       throw new Error("PhysicsManager not initialized. Call init() first.");
@@ -37,31 +60,42 @@ export class PhysicsManager {
   }
 
   /**
-   * Step physics with fixed timestep (60hz)
+   * Step physics with fixed timestep
    * Returns the interpolation alpha (0-1) for smooth rendering between physics steps
    */
   step(deltaTime: number): number {
     if (!this.world) {
+      this.frameDelta = 0;
       return 0;
     }
 
-    // Clamp deltaTime to prevent large jumps
-    const clampedDelta = Math.min(deltaTime, 0.25);
-    
+    // While paused only queued single steps advance the simulation
+    if (this.paused) {
+      this.frameDelta = 0;
+      if (this.pendingSteps > 0) {
+        this.pendingSteps--;
+        this.stepWorld();
+        this.frameDelta = this.fixedTimeStep;
+      }
+      return this.accumulator / this.fixedTimeStep;
+    }
+
+    // Clamp deltaTime to prevent large jumps, then apply slow motion / fast forward
+    const clampedDelta = Math.min(deltaTime, 0.25) * this.timeScale;
+    this.frameDelta = clampedDelta;
+
     // Add to accumulator
     this.accumulator += clampedDelta;
 
-    // Step physics at fixed timestep (60hz)
-    // Rapier.js step() doesn't take timestep - it uses internal timestep
-    // We control fixed timestep by calling step() multiple times based on accumulator
+    // Step physics at fixed timestep
+    // Rapier.js step() uses world.timestep, which applyTimestep() keeps in sync
+    // with fixedTimeStep / substeps
     let steps = 0;
     while (this.accumulator >= this.fixedTimeStep) {
-      // Call step() without parameters - Rapier uses its internal timestep
-      // We've already configured the world, so this should work
-      this.world.step();
+      this.stepWorld();
       this.accumulator -= this.fixedTimeStep;
       steps++;
-      
+
       // Safety: prevent too many steps in one frame (spiral of death protection)
       if (steps > 10) {
         console.warn("Physics step limit reached, clamping accumulator");
@@ -75,9 +109,97 @@ export class PhysicsManager {
     return this.accumulator / this.fixedTimeStep;
   }
 
+  private stepWorld(): void {
+    const dt = this.fixedTimeStep / this.substeps;
+    for (let i = 0; i < this.substeps; i++) {
+      this.stepListeners.forEach((listener) => listener(dt));
+      this.world!.step(this.events!.getEventQueue());
+      this.events!.dispatch();
+    }
+  }
+
+  /**
+   * Run a callback before every Rapier world step with that step's dt
+   * (kinematic bodies set their next pose here). Returns an unsubscribe function.
+   */
+  addStepListener(listener: (dt: number) => void): () => void {
+    this.stepListeners.add(listener);
+    return () => this.stepListeners.delete(listener);
+  }
+
+  private applyTimestep(): void {
+    if (this.world) {
+      this.world.timestep = this.fixedTimeStep / this.substeps;
+    }
+  }
+
+  /**
+   * Simulation time that elapsed during the last step() call, in seconds
+   * Scaled by timeScale, 0 while paused, one fixed step after stepOnce().
+   * Gameplay, animation and effects should advance by this instead of the
+   * real frame delta so they stay in sync with physics.
+   */
+  getFrameDelta(): number {
+    return this.frameDelta;
+  }
+
+  setFixedTimeStep(fixedTimeStep: number): void {
+    this.fixedTimeStep = Math.min(Math.max(fixedTimeStep, 1 / 1000), 1 / 10);
+    this.accumulator = Math.min(this.accumulator, this.fixedTimeStep);
+    this.applyTimestep();
+  }
+
+  getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
+  /**
+   * Split each fixed step into n smaller Rapier steps for stability
+   */
+  setSubsteps(substeps: number): void {
+    this.substeps = Math.max(1, Math.round(substeps));
+    this.applyTimestep();
+  }
+
+  getSubsteps(): number {
+    return this.substeps;
+  }
+
+  setTimeScale(timeScale: number): void {
+    this.timeScale = Math.max(0, timeScale);
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pendingSteps = 0;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Advance exactly one fixed step on the next step() call
+   * Pauses the simulation first if it is running
+   */
+  stepOnce(): void {
+    this.paused = true;
+    this.pendingSteps++;
+  }
+
   dispose(): void {
     if (this.world) {
       // Rapier doesn't have explicit dispose, but we can clear references
+      this.events?.dispose();
+      this.events = null;
       this.world = null;
       this.initialized = false;
     }
@@ -7,6 +7,7 @@ export class RapierDebugRenderer {
   private lines: THREE.LineSegments;
   private geometry: THREE.BufferGeometry;
   private material: THREE.LineBasicMaterial;
+  private helpers: THREE.Group;
   private enabled: boolean = false;
 
   constructor(scene: THREE.Scene) {
@@ -22,6 +23,19 @@ export class RapierDebugRenderer {
     this.lines = new THREE.LineSegments(this.geometry, this.material);
     this.lines.visible = false;
     this.scene.add(this.lines);
+
+    // Extra overlay objects (trigger volumes...) shown alongside the collider lines
+    this.helpers = new THREE.Group();
+    this.helpers.visible = false;
+    this.scene.add(this.helpers);
+  }
+
+  addHelper(helper: THREE.Object3D): void {
+    this.helpers.add(helper);
+  }
+
+  removeHelper(helper: THREE.Object3D): void {
+    this.helpers.remove(helper);
   }
 
   update(world: InstanceType<RAPIER["World"]>): void {
@@ -64,6 +78,7 @@ export class RapierDebugRenderer {
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     this.lines.visible = enabled;
+    this.helpers.visible = enabled;
   }
 
   isEnabled(): boolean {
@@ -72,6 +87,7 @@ export class RapierDebugRenderer {
 
   dispose(): void {
     this.scene.remove(this.lines);
+    this.scene.remove(this.helpers);
     this.geometry.dispose();
     this.material.dispose();
   }